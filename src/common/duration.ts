@@ -0,0 +1,23 @@
+import { Duration } from "../protocol/core";
+
+const DURATION_PATTERN = /^PT(\d+(?:\.\d+)?)S$/;
+
+/*
+ * Converts an AudioHook ISO8601 duration (e.g. "PT1.25S") into seconds.
+ * Anything that does not match the protocol format is treated as zero.
+ */
+export function parseDuration(duration: Duration | undefined): number {
+  if (!duration) {
+    return 0;
+  }
+
+  const match = DURATION_PATTERN.exec(duration);
+  return match ? Number(match[1]) : 0;
+}
+
+/*
+ * Converts seconds into an AudioHook ISO8601 duration, rounded to milliseconds.
+ */
+export function formatDuration(seconds: number): Duration {
+  return `PT${Number(Math.max(0, seconds).toFixed(3))}S` as Duration;
+}
@@ -1,3 +1,7 @@
+import type { AudioOverflowPolicy } from "../services/audio-ingest-queue";
+import type { DTMFOptions } from "../services/dtmf-service";
+import type { NoInputPolicy } from "../services/voice-aiagent-base";
+
 const DEFAULT_PORT = 5000;
 
 export function getPort(): number {
@@ -24,10 +28,183 @@ export function getMAXBinaryMessageSize(): number {
   return Number(process.env.MAXIMUM_BINARY_MESSAGE_SIZE) || 64000;
 }
 
-export function getMinBinaryMessageSize(): number {
-  return Number(process.env.MINIMUM_BINARY_MESSAGE_SIZE) || 1000;
+export function getPlayoutFrameMs(): number {
+  return Number(process.env.PLAYOUT_FRAME_MS) || 100;
+}
+
+export function getPlayoutLeadMs(): number {
+  return Number(process.env.PLAYOUT_LEAD_MS) || 200;
 }
 
 export function getNoInputTimeout(): number {
   return Number(process.env.NO_INPUT_TIMEOUT) || 30000;
 }
+
+const DEFAULT_NO_INPUT_REPROMPTS = [
+  "User has been silent. Please ask if they need help.",
+  "User is still silent. Rephrase your last question more simply and ask if they are still there.",
+];
+
+export function getNoInputPolicy(): NoInputPolicy {
+  let reprompts = DEFAULT_NO_INPUT_REPROMPTS;
+  if (process.env.NO_INPUT_MESSAGES) {
+    try {
+      const messages: unknown = JSON.parse(process.env.NO_INPUT_MESSAGES);
+      if (
+        !Array.isArray(messages) ||
+        messages.length === 0 ||
+        !messages.every((message) => typeof message === "string" && message)
+      ) {
+        throw new Error("expected a non-empty array of strings");
+      }
+      reprompts = messages;
+    } catch (error) {
+      console.error(`${getISTTime()}:Invalid NO_INPUT_MESSAGES:`, error);
+    }
+  } else if (process.env.NO_INPUT_MESSAGE) {
+    reprompts = [process.env.NO_INPUT_MESSAGE];
+  }
+
+  return {
+    maxReprompts: getNonNegativeInteger(
+      "NO_INPUT_MAX_REPROMPTS",
+      reprompts.length
+    ),
+    reprompts,
+    finalMessage:
+      process.env.NO_INPUT_FINAL_MESSAGE ||
+      "User has not responded. Tell them you are ending the call and say goodbye.",
+  };
+}
+
+export function getCompletionTimeout(): number {
+  return Number(process.env.COMPLETION_TIMEOUT) || 10000;
+}
+
+export function getSessionStateDir(): string {
+  return process.env.SESSION_STATE_DIR || "./session-state";
+}
+
+export function getSessionStateTtl(): number {
+  return Number(process.env.SESSION_STATE_TTL) || 300000;
+}
+
+export function getReconnectGracePeriod(): number {
+  return Number(process.env.RECONNECT_GRACE_PERIOD) || 5000;
+}
+
+export function getInboundQueueMs(): number {
+  return Number(process.env.INBOUND_QUEUE_MS) || 2000;
+}
+
+export function getInboundOverflowPolicy(): AudioOverflowPolicy {
+  return process.env.INBOUND_OVERFLOW_POLICY === "drop-newest"
+    ? "drop-newest"
+    : "drop-oldest";
+}
+
+export function getDefaultBotProvider(): string {
+  return process.env.BOT_PROVIDER || "UltraVox";
+}
+
+export function getAllowedBotProviders(): string[] {
+  return parseList(process.env.ALLOWED_BOT_PROVIDERS);
+}
+
+export function getAllowedBotModels(): string[] {
+  return parseList(process.env.ALLOWED_BOT_MODELS);
+}
+
+export function getAllowedBotVoices(): string[] {
+  return parseList(process.env.ALLOWED_BOT_VOICES);
+}
+
+export function getAllowedBotPrompts(): string[] {
+  return parseList(process.env.ALLOWED_BOT_PROMPTS);
+}
+
+// A flow-supplied systemPrompt bypasses the prompt allow-list, so it is opt-in
+export function getAllowInlineSystemPrompt(): boolean {
+  return process.env.ALLOW_INLINE_SYSTEM_PROMPT === "true";
+}
+
+function parseList(value: string | undefined): string[] {
+  return (value || "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+export function getToolWebhookBaseUrl(): string {
+  return (process.env.TOOL_WEBHOOK_BASE_URL || "").replace(/\/+$/, "");
+}
+
+export function getToolWebhookTimeout(): number {
+  return Number(process.env.TOOL_WEBHOOK_TIMEOUT) || 5000;
+}
+
+// Webhook tools slower than this pause the audio stream (0 disables)
+export function getToolPauseThreshold(): number {
+  const value = Number(process.env.TOOL_PAUSE_THRESHOLD ?? 3000);
+  return Number.isFinite(value) && value >= 0 ? value : 3000;
+}
+
+export function getDefaultTransferQueue(): string {
+  return process.env.DEFAULT_TRANSFER_QUEUE || "";
+}
+
+export function getAllowedTransferQueues(): string[] {
+  return parseList(process.env.ALLOWED_TRANSFER_QUEUES);
+}
+
+export function getTransferHandoffMessage(): string {
+  return (
+    process.env.TRANSFER_HANDOFF_MESSAGE ||
+    "Please hold while I transfer you to an agent who can help."
+  );
+}
+
+export function getDTMFOptions(): DTMFOptions {
+  return {
+    firstDigitTimeoutMs: getNonNegativeInteger(
+      "DTMF_FIRST_DIGIT_TIMEOUT",
+      5000
+    ),
+    interDigitTimeoutMs: getNonNegativeInteger(
+      "DTMF_INTER_DIGIT_TIMEOUT",
+      3000
+    ),
+    minDigits: getNonNegativeInteger("DTMF_MIN_DIGITS", 1),
+    maxDigits: getNonNegativeInteger("DTMF_MAX_DIGITS", 0),
+    terminators: process.env.DTMF_TERMINATORS ?? "#",
+    abortKey: process.env.DTMF_ABORT_KEY ?? "*",
+  };
+}
+
+// Replace captured digits with "*" in logs and transcripts (e.g. PINs)
+export function getDTMFMaskDigits(): boolean {
+  return process.env.DTMF_MASK_DIGITS === "true";
+}
+
+export function getInbandDTMFDetection(): boolean {
+  return process.env.DTMF_INBAND_DETECTION === "true";
+}
+
+export function getInbandDTMFSuppression(): boolean {
+  return process.env.DTMF_INBAND_SUPPRESS !== "false";
+}
+
+// Unset falls back to the default; invalid values are logged and ignored
+function getNonNegativeInteger(name: string, defaultValue: number): number {
+  const value = process.env[name];
+  if (value === undefined || value === "") {
+    return defaultValue;
+  }
+
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 0) {
+    console.error(`${getISTTime()}:Invalid ${name}: ${value}`);
+    return defaultValue;
+  }
+  return parsed;
+}
@@ -83,24 +83,13 @@ export type Participant = {
     dnis: string;
 };
 
-//export type ContinuedSession = {
-//    id: Uuid;
-//    serverseq: SequenceNumber;
-//    clientseq: SequenceNumber;
-//}
-
-//export type ContinuedSessions = ContinuedSession[];
-
-//export type OpenParameters = {
-//    organizationId: Uuid;
-//    conversationId: Uuid;
-//    participant: Participant;
-//    media: MediaParameters;
-//    language?: LanguageCode;
-//    continuedSessions?: ContinuedSessions;
-//    customConfig?: JsonObject;
-//    inputVariables?: JsonStringMap;
-//};
+export type ContinuedSession = {
+    id: Uuid;
+    serverseq: SequenceNumber;
+    clientseq: SequenceNumber;
+}
+
+export type ContinuedSessions = ContinuedSession[];
 
 export type OpenParameters = {
     organizationId: Uuid;
@@ -108,6 +97,7 @@ export type OpenParameters = {
     participant: Participant;
     media: MediaParameters;
     language?: LanguageCode;
+    continuedSessions?: ContinuedSessions;
     customConfig?: JsonObject;
     inputVariables?: JsonStringMap;
 };
@@ -0,0 +1,126 @@
+import fs from "fs";
+import { JsonObject, JsonStringMap } from "../protocol/core";
+import { VoiceAIAgentFactory } from "./voice-aiagent-factory";
+import {
+  getAllowedBotProviders,
+  getAllowedBotModels,
+  getAllowedBotVoices,
+  getAllowedBotPrompts,
+  getAllowInlineSystemPrompt,
+  getDefaultBotProvider,
+} from "../common/environment-variables";
+
+/*
+ * Per-call voice agent configuration.
+ *
+ * Values are taken, in increasing order of precedence, from the environment,
+ * the AudioHook integration's customConfig and the Architect flow's
+ * inputVariables, so a flow can pick e.g. the provider or voice for one call.
+ */
+export type AgentConfig = {
+  provider: string;
+  model?: string;
+  voice?: string;
+  temperature?: number;
+  promptName?: string;
+  systemPrompt?: string;
+};
+
+export type AgentConfigResult = {
+  config: AgentConfig;
+  errors: string[];
+};
+
+const CONFIG_KEYS: (keyof AgentConfig)[] = [
+  "provider",
+  "model",
+  "voice",
+  "temperature",
+  "promptName",
+  "systemPrompt",
+];
+
+// Prompt names become file names under src/prompts
+const PROMPT_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+export function resolveAgentConfig(
+  inputVariables: JsonStringMap,
+  customConfig: JsonObject
+): AgentConfigResult {
+  const errors: string[] = [];
+  const values: { [key: string]: string } = {};
+
+  for (const key of CONFIG_KEYS) {
+    const value = inputVariables[key] ?? customConfig[key];
+    if (value === undefined || value === null || value === "") continue;
+
+    if (typeof value === "object") {
+      errors.push(`"${key}" must be a string or number`);
+      continue;
+    }
+    values[key] = String(value).trim();
+  }
+
+  const config: AgentConfig = {
+    provider: (values.provider || getDefaultBotProvider()).toLowerCase(),
+    model: values.model,
+    voice: values.voice,
+    promptName: values.promptName,
+    systemPrompt: values.systemPrompt,
+  };
+
+  if (!VoiceAIAgentFactory.isProviderSupported(config.provider)) {
+    errors.push(`Unknown provider "${config.provider}"`);
+  } else if (!isAllowed(config.provider, getAllowedBotProviders())) {
+    errors.push(`Provider "${config.provider}" is not allowed`);
+  }
+
+  if (config.model && !isAllowed(config.model, getAllowedBotModels())) {
+    errors.push(`Model "${config.model}" is not allowed`);
+  }
+
+  if (config.voice && !isAllowed(config.voice, getAllowedBotVoices())) {
+    errors.push(`Voice "${config.voice}" is not allowed`);
+  }
+
+  if (values.temperature !== undefined) {
+    const temperature = Number(values.temperature);
+    if (isNaN(temperature) || temperature < 0 || temperature > 1) {
+      errors.push(
+        `Temperature "${values.temperature}" must be a number between 0 and 1`
+      );
+    } else {
+      config.temperature = temperature;
+    }
+  }
+
+  if (config.promptName) {
+    if (!PROMPT_NAME_PATTERN.test(config.promptName)) {
+      errors.push(`Prompt name "${config.promptName}" is invalid`);
+    } else if (!isAllowed(config.promptName, getAllowedBotPrompts())) {
+      errors.push(`Prompt "${config.promptName}" is not allowed`);
+    } else if (!fs.existsSync(getPromptFilePath(config.promptName))) {
+      errors.push(`Prompt "${config.promptName}" does not exist`);
+    }
+  }
+
+  if (config.systemPrompt && !getAllowInlineSystemPrompt()) {
+    errors.push(
+      `Inline "systemPrompt" is not enabled (ALLOW_INLINE_SYSTEM_PROMPT)`
+    );
+  }
+
+  return { config, errors };
+}
+
+export function getPromptFilePath(promptName: string): string {
+  return "./src/prompts/" + promptName + "Prompt.md";
+}
+
+// An empty allow-list allows everything
+function isAllowed(value: string, allowList: string[]): boolean {
+  return (
+    allowList.length === 0 ||
+    allowList.some((allowed) => allowed.toLowerCase() === value.toLowerCase())
+  );
+}
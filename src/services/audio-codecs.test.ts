@@ -0,0 +1,104 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import {
+  decodeAlaw,
+  decodeL16,
+  decodeUlaw,
+  encodeAlaw,
+  encodeL16,
+  encodeUlaw,
+  getCodec,
+  swapL16Endianness,
+} from "./audio-codecs";
+
+const ALL_CODES = Uint8Array.from({ length: 256 }, (_, i) => i);
+
+describe("G.711 μ-law", () => {
+  it("decodes the ITU-T reference values", () => {
+    assert.deepEqual(
+      Array.from(decodeUlaw(Uint8Array.of(0xff, 0x7f, 0x00, 0x80))),
+      [0, 0, -32124, 32124]
+    );
+  });
+
+  it("re-encodes every code to itself", () => {
+    const roundTrip = encodeUlaw(decodeUlaw(ALL_CODES));
+    ALL_CODES.forEach((code) => {
+      // 0x7f is negative zero and encodes as positive zero
+      assert.equal(roundTrip[code], code === 0x7f ? 0xff : code);
+    });
+  });
+
+  it("encodes silence as the codec's silence byte", () => {
+    assert.deepEqual(
+      encodeUlaw(new Int16Array(2)),
+      Uint8Array.of(getCodec("PCMU").silenceByte, getCodec("PCMU").silenceByte)
+    );
+  });
+});
+
+describe("G.711 A-law", () => {
+  it("decodes the ITU-T reference values", () => {
+    assert.deepEqual(
+      Array.from(decodeAlaw(Uint8Array.of(0xd5, 0x55, 0xaa, 0x2a))),
+      [8, -8, 32256, -32256]
+    );
+  });
+
+  it("re-encodes every code to itself", () => {
+    assert.deepEqual(encodeAlaw(decodeAlaw(ALL_CODES)), ALL_CODES);
+  });
+
+  it("encodes silence as the codec's silence byte", () => {
+    assert.deepEqual(
+      encodeAlaw(new Int16Array(2)),
+      Uint8Array.of(getCodec("PCMA").silenceByte, getCodec("PCMA").silenceByte)
+    );
+  });
+});
+
+describe("L16", () => {
+  const samples = Int16Array.of(0, 1, -1, 0x1234, -32768, 32767);
+
+  it("encodes little-endian by default", () => {
+    assert.deepEqual(
+      Array.from(encodeL16(samples).subarray(0, 8)),
+      [0x00, 0x00, 0x01, 0x00, 0xff, 0xff, 0x34, 0x12]
+    );
+    assert.deepEqual(decodeL16(encodeL16(samples)), samples);
+  });
+
+  it("encodes and decodes big-endian", () => {
+    assert.deepEqual(
+      Array.from(encodeL16(samples, false).subarray(0, 8)),
+      [0x00, 0x00, 0x00, 0x01, 0xff, 0xff, 0x12, 0x34]
+    );
+    assert.deepEqual(decodeL16(encodeL16(samples, false), false), samples);
+  });
+
+  it("decodes from a byte offset into a larger buffer", () => {
+    const data = Uint8Array.of(0xaa, 0x34, 0x12, 0x01, 0x00);
+    assert.deepEqual(decodeL16(data.subarray(1)), Int16Array.of(0x1234, 1));
+  });
+
+  it("swaps byte order between the two layouts", () => {
+    assert.deepEqual(
+      swapL16Endianness(encodeL16(samples)),
+      encodeL16(samples, false)
+    );
+  });
+
+  it("drops a trailing odd byte when swapping", () => {
+    assert.deepEqual(
+      swapL16Endianness(Uint8Array.of(0x01, 0x02, 0x03, 0x04, 0x05)),
+      Uint8Array.of(0x02, 0x01, 0x04, 0x03)
+    );
+    assert.deepEqual(swapL16Endianness(Uint8Array.of(0x01)), new Uint8Array());
+  });
+});
+
+describe("getCodec", () => {
+  it("rejects unknown codecs", () => {
+    assert.throws(() => getCodec("G729" as any), /Unsupported codec/);
+  });
+});
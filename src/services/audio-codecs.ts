@@ -0,0 +1,202 @@
+import { MediaFormat } from "../protocol/core";
+
+/*
+ * G.711 (μ-law / A-law) and L16 codecs shared by the session layer and all
+ * voice agent providers. The G.711 routines follow the ITU-T reference
+ * implementation and are table-driven: decode tables have 256 entries, encode
+ * tables are indexed by the 16-bit sample.
+ */
+
+export type CodecName = "PCMU" | "PCMA" | "L16";
+
+export interface AudioCodec {
+  name: CodecName;
+  bytesPerSample: number;
+  silenceByte: number; // Encoded value of a zero sample (per byte for L16)
+  decode(data: Uint8Array): Int16Array;
+  encode(samples: Int16Array): Uint8Array;
+}
+
+const ULAW_BIAS = 0x84;
+const ULAW_CLIP = 8159;
+const ULAW_SEGMENT_ENDS = [
+  0x3f, 0x7f, 0xff, 0x1ff, 0x3ff, 0x7ff, 0xfff, 0x1fff,
+];
+const ALAW_SEGMENT_ENDS = [0x1f, 0x3f, 0x7f, 0xff, 0x1ff, 0x3ff, 0x7ff, 0xfff];
+
+function findSegment(value: number, segmentEnds: number[]): number {
+  for (let segment = 0; segment < segmentEnds.length; segment++) {
+    if (value <= segmentEnds[segment]) return segment;
+  }
+  return segmentEnds.length;
+}
+
+function linearToUlawSample(sample: number): number {
+  let value = sample >> 2;
+  let mask = 0xff;
+  if (value < 0) {
+    value = -value;
+    mask = 0x7f;
+  }
+  if (value > ULAW_CLIP) value = ULAW_CLIP;
+  value += ULAW_BIAS >> 2;
+
+  const segment = findSegment(value, ULAW_SEGMENT_ENDS);
+  if (segment >= 8) return 0x7f ^ mask;
+
+  return ((segment << 4) | ((value >> (segment + 1)) & 0x0f)) ^ mask;
+}
+
+function ulawToLinearSample(ulaw: number): number {
+  const value = ~ulaw & 0xff;
+  let sample = ((value & 0x0f) << 3) + ULAW_BIAS;
+  sample <<= (value & 0x70) >> 4;
+  return value & 0x80 ? ULAW_BIAS - sample : sample - ULAW_BIAS;
+}
+
+function linearToAlawSample(sample: number): number {
+  let value = sample >> 3;
+  let mask = 0xd5;
+  if (value < 0) {
+    mask = 0x55;
+    value = -value - 1;
+  }
+
+  const segment = findSegment(value, ALAW_SEGMENT_ENDS);
+  if (segment >= 8) return 0x7f ^ mask;
+
+  const mantissa =
+    segment < 2 ? (value >> 1) & 0x0f : (value >> segment) & 0x0f;
+  return ((segment << 4) | mantissa) ^ mask;
+}
+
+function alawToLinearSample(alaw: number): number {
+  const value = alaw ^ 0x55;
+  let sample = (value & 0x0f) << 4;
+  const segment = (value & 0x70) >> 4;
+
+  if (segment === 0) {
+    sample += 8;
+  } else {
+    sample = (sample + 0x108) << (segment - 1);
+  }
+  return value & 0x80 ? sample : -sample;
+}
+
+function buildDecodeTable(decode: (byte: number) => number): Int16Array {
+  const table = new Int16Array(256);
+  for (let byte = 0; byte < 256; byte++) {
+    table[byte] = decode(byte);
+  }
+  return table;
+}
+
+function buildEncodeTable(encode: (sample: number) => number): Uint8Array {
+  const table = new Uint8Array(65536);
+  for (let sample = -32768; sample < 32768; sample++) {
+    table[sample & 0xffff] = encode(sample);
+  }
+  return table;
+}
+
+const ULAW_DECODE_TABLE = buildDecodeTable(ulawToLinearSample);
+const ULAW_ENCODE_TABLE = buildEncodeTable(linearToUlawSample);
+const ALAW_DECODE_TABLE = buildDecodeTable(alawToLinearSample);
+const ALAW_ENCODE_TABLE = buildEncodeTable(linearToAlawSample);
+
+export function decodeUlaw(data: Uint8Array): Int16Array {
+  const samples = new Int16Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    samples[i] = ULAW_DECODE_TABLE[data[i]];
+  }
+  return samples;
+}
+
+export function encodeUlaw(samples: Int16Array): Uint8Array {
+  const data = new Uint8Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    data[i] = ULAW_ENCODE_TABLE[samples[i] & 0xffff];
+  }
+  return data;
+}
+
+export function decodeAlaw(data: Uint8Array): Int16Array {
+  const samples = new Int16Array(data.length);
+  for (let i = 0; i < data.length; i++) {
+    samples[i] = ALAW_DECODE_TABLE[data[i]];
+  }
+  return samples;
+}
+
+export function encodeAlaw(samples: Int16Array): Uint8Array {
+  const data = new Uint8Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    data[i] = ALAW_ENCODE_TABLE[samples[i] & 0xffff];
+  }
+  return data;
+}
+
+/*
+ * L16 helpers. AudioHook sends L16 little-endian; RTP style L16 is big-endian.
+ */
+export function decodeL16(data: Uint8Array, littleEndian = true): Int16Array {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+  const samples = new Int16Array(Math.floor(data.byteLength / 2));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = view.getInt16(i * 2, littleEndian);
+  }
+  return samples;
+}
+
+export function encodeL16(
+  samples: Int16Array,
+  littleEndian = true
+): Uint8Array {
+  const data = new Uint8Array(samples.length * 2);
+  const view = new DataView(data.buffer);
+  for (let i = 0; i < samples.length; i++) {
+    view.setInt16(i * 2, samples[i], littleEndian);
+  }
+  return data;
+}
+
+export function swapL16Endianness(data: Uint8Array): Uint8Array {
+  const swapped = new Uint8Array(data.length - (data.length % 2));
+  for (let i = 0; i < swapped.length; i += 2) {
+    swapped[i] = data[i + 1];
+    swapped[i + 1] = data[i];
+  }
+  return swapped;
+}
+
+const CODECS: Record<CodecName, AudioCodec> = {
+  PCMU: {
+    name: "PCMU",
+    bytesPerSample: 1,
+    silenceByte: 0xff,
+    decode: decodeUlaw,
+    encode: encodeUlaw,
+  },
+  PCMA: {
+    name: "PCMA",
+    bytesPerSample: 1,
+    silenceByte: 0xd5,
+    decode: decodeAlaw,
+    encode: encodeAlaw,
+  },
+  L16: {
+    name: "L16",
+    bytesPerSample: 2,
+    silenceByte: 0x00,
+    decode: (data: Uint8Array) => decodeL16(data),
+    encode: (samples: Int16Array) => encodeL16(samples),
+  },
+};
+
+export function getCodec(name: CodecName | MediaFormat): AudioCodec {
+  const codec = CODECS[name];
+  if (!codec) {
+    throw new Error(`[AudioCodecs] Unsupported codec: ${name}`);
+  }
+  return codec;
+}
@@ -0,0 +1,136 @@
+import { getISTTime } from "../common/environment-variables";
+
+/*
+ * What to do when audio arrives while the queue is full:
+ *   drop-oldest: discard the oldest queued samples (keeps latency bounded)
+ *   drop-newest: discard the incoming samples (keeps what is already queued)
+ */
+export type AudioOverflowPolicy = "drop-oldest" | "drop-newest";
+
+/*
+ * This class queues inbound (caller) PCM samples until the agent connection
+ * consumes them in fixed size frames.
+ *
+ * Every sample is kept unless the queue reaches "maxSamples", in which case the
+ * overflow policy decides which samples are discarded. Dropped samples are
+ * counted and logged so overflow never happens silently.
+ */
+export class AudioIngestQueue {
+  private chunks: Array<Int16Array> = new Array<Int16Array>();
+  private length = 0;
+  private droppedSamples = 0;
+  private maxSamples: number;
+  private policy: AudioOverflowPolicy;
+  private name: string;
+
+  constructor(
+    maxSamples: number,
+    policy: AudioOverflowPolicy = "drop-oldest",
+    name = "IngestQueue"
+  ) {
+    this.maxSamples = maxSamples;
+    this.policy = policy;
+    this.name = name;
+  }
+
+  getLength(): number {
+    return this.length;
+  }
+
+  getDroppedSamples(): number {
+    return this.droppedSamples;
+  }
+
+  /*
+   * Adds samples to the queue and returns the number of samples dropped to
+   * make them fit (0 when nothing overflowed).
+   */
+  push(samples: Int16Array): number {
+    if (samples.length === 0) return 0;
+
+    const overflow = this.length + samples.length - this.maxSamples;
+    let dropped = 0;
+
+    if (overflow > 0) {
+      if (this.policy === "drop-newest") {
+        dropped = Math.min(overflow, samples.length);
+        samples = samples.subarray(0, samples.length - dropped);
+      } else {
+        dropped = this.discard(overflow);
+        // Incoming chunk alone is larger than the queue - keep its tail
+        if (samples.length > this.maxSamples) {
+          dropped += samples.length - this.maxSamples;
+          samples = samples.subarray(samples.length - this.maxSamples);
+        }
+      }
+
+      this.droppedSamples += dropped;
+      console.warn(
+        `${getISTTime()}:[${this.name}] Queue full (${
+          this.maxSamples
+        } samples) - dropped ${dropped} samples (${
+          this.policy
+        }, total dropped: ${this.droppedSamples})`
+      );
+    }
+
+    if (samples.length > 0) {
+      this.chunks.push(samples);
+      this.length += samples.length;
+    }
+    return dropped;
+  }
+
+  /*
+   * Removes and returns exactly "count" samples, or null if fewer are queued.
+   */
+  read(count: number): Int16Array | null {
+    if (this.length < count) return null;
+
+    const output = new Int16Array(count);
+    let offset = 0;
+
+    while (offset < count) {
+      const chunk = this.chunks[0];
+      const needed = count - offset;
+
+      if (chunk.length <= needed) {
+        output.set(chunk, offset);
+        offset += chunk.length;
+        this.chunks.shift();
+      } else {
+        output.set(chunk.subarray(0, needed), offset);
+        offset += needed;
+        this.chunks[0] = chunk.subarray(needed);
+      }
+    }
+
+    this.length -= count;
+    return output;
+  }
+
+  clear(): void {
+    this.chunks.length = 0;
+    this.length = 0;
+  }
+
+  private discard(count: number): number {
+    let discarded = 0;
+
+    while (discarded < count && this.chunks.length > 0) {
+      const chunk = this.chunks[0];
+      const needed = count - discarded;
+
+      if (chunk.length <= needed) {
+        discarded += chunk.length;
+        this.chunks.shift();
+      } else {
+        this.chunks[0] = chunk.subarray(needed);
+        discarded += needed;
+      }
+    }
+
+    this.length -= discarded;
+    return discarded;
+  }
+}
@@ -0,0 +1,175 @@
+import { getISTTime } from "../common/environment-variables";
+
+export type AudioPlayoutOptions = {
+  bytesPerSecond: number; // e.g. 8000 for PCMU, 16000 for L16
+  frameMs: number; // size of each frame sent to the client
+  leadMs: number; // how far ahead of real time we may send
+  silenceByte: number; // used to pad the last frame of an utterance
+};
+
+/*
+ * This class paces outbound (agent) audio to the client at real-time rate.
+ *
+ * Audio is queued as it arrives from the agent and sent in fixed size frames,
+ * never more than "leadMs" ahead of the playout clock. Nothing is dropped: a
+ * trailing partial frame is held until more audio arrives or flush() is
+ * called, in which case it is padded with silence. clear() discards everything
+ * that has not been sent yet (barge-in).
+ */
+export class AudioPlayoutScheduler {
+  private send: (frame: Uint8Array) => void;
+  private options: AudioPlayoutOptions;
+  private frameBytes: number;
+
+  private queue: Array<Uint8Array> = new Array<Uint8Array>();
+  private queuedBytes = 0;
+  private flushRequested = false;
+
+  private timerId: ReturnType<typeof setInterval> | null = null;
+  private playoutStart = 0;
+  private bytesSent = 0;
+
+  constructor(send: (frame: Uint8Array) => void, options: AudioPlayoutOptions) {
+    this.send = send;
+    this.options = options;
+    this.frameBytes = Math.max(
+      1,
+      Math.round((options.bytesPerSecond * options.frameMs) / 1000)
+    );
+  }
+
+  getQueuedBytes(): number {
+    return this.queuedBytes;
+  }
+
+  isIdle(): boolean {
+    return this.queuedBytes === 0;
+  }
+
+  /*
+   * Bytes already sent to the client that it has not played yet (at most
+   * "leadMs" worth).
+   */
+  getUnplayedBytes(): number {
+    const playedBytes =
+      ((Date.now() - this.playoutStart) * this.options.bytesPerSecond) / 1000;
+    return Math.max(0, Math.round(this.bytesSent - playedBytes));
+  }
+
+  enqueue(bytes: Uint8Array): void {
+    if (bytes.length === 0) return;
+
+    this.queue.push(bytes);
+    this.queuedBytes += bytes.length;
+    this.flushRequested = false;
+    this.start();
+  }
+
+  /*
+   * Marks the end of an utterance - the remaining audio is sent even if it
+   * does not fill a whole frame.
+   */
+  flush(): void {
+    if (this.queuedBytes === 0) return;
+
+    this.flushRequested = true;
+    this.start();
+  }
+
+  /*
+   * Discards all queued audio and returns the number of bytes discarded. The
+   * client drops its unplayed audio on barge-in too, so the playout clock
+   * starts over with the next utterance.
+   */
+  clear(): number {
+    const discarded = this.queuedBytes;
+    this.queue.length = 0;
+    this.queuedBytes = 0;
+    this.flushRequested = false;
+    this.stop();
+    this.playoutStart = 0;
+    this.bytesSent = 0;
+
+    if (discarded > 0) {
+      console.log(
+        `${getISTTime()}:[Playout] Cleared ${discarded} bytes of queued audio`
+      );
+    }
+    return discarded;
+  }
+
+  stop(): void {
+    if (this.timerId !== null) {
+      clearInterval(this.timerId);
+      this.timerId = null;
+    }
+  }
+
+  private start(): void {
+    if (this.timerId !== null) return;
+
+    // Restart the playout clock only once everything sent so far has played,
+    // otherwise each restart would let us run another "leadMs" ahead
+    const sentMs = (this.bytesSent * 1000) / this.options.bytesPerSecond;
+    if (Date.now() - this.playoutStart >= sentMs) {
+      this.playoutStart = Date.now();
+      this.bytesSent = 0;
+    }
+    this.timerId = setInterval(() => this.tick(), this.options.frameMs);
+    this.tick();
+  }
+
+  private tick(): void {
+    const elapsedMs = Date.now() - this.playoutStart + this.options.leadMs;
+    const dueBytes = (elapsedMs * this.options.bytesPerSecond) / 1000;
+
+    while (this.bytesSent + this.frameBytes <= dueBytes) {
+      const frame = this.nextFrame();
+      if (!frame) break;
+
+      this.bytesSent += frame.length;
+      this.send(frame);
+    }
+
+    // Nothing left (or only a partial frame waiting for more audio)
+    if (
+      this.queuedBytes === 0 ||
+      (this.queuedBytes < this.frameBytes && !this.flushRequested)
+    ) {
+      this.stop();
+    }
+  }
+
+  private nextFrame(): Uint8Array | null {
+    if (this.queuedBytes === 0) return null;
+    if (this.queuedBytes < this.frameBytes && !this.flushRequested) {
+      return null;
+    }
+
+    const frame = new Uint8Array(this.frameBytes).fill(
+      this.options.silenceByte
+    );
+    let offset = 0;
+
+    while (offset < this.frameBytes && this.queue.length > 0) {
+      const chunk = this.queue[0];
+      const needed = this.frameBytes - offset;
+
+      if (chunk.length <= needed) {
+        frame.set(chunk, offset);
+        offset += chunk.length;
+        this.queue.shift();
+      } else {
+        frame.set(chunk.subarray(0, needed), offset);
+        offset += needed;
+        this.queue[0] = chunk.subarray(needed);
+      }
+    }
+
+    this.queuedBytes -= offset;
+    if (this.queuedBytes === 0) {
+      this.flushRequested = false;
+    }
+    return frame;
+  }
+}
@@ -0,0 +1,150 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { AudioResampler, SUPPORTED_SAMPLE_RATES } from "./audio-resampler";
+
+const AMPLITUDE = 10000;
+
+function sine(frequency: number, sampleRate: number, seconds: number) {
+  const samples = new Int16Array(Math.round(sampleRate * seconds));
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] = Math.round(
+      AMPLITUDE * Math.sin((2 * Math.PI * frequency * i) / sampleRate)
+    );
+  }
+  return samples;
+}
+
+// Amplitude of one frequency in the steady-state middle of the signal
+function amplitudeAt(
+  samples: Int16Array,
+  frequency: number,
+  sampleRate: number
+): number {
+  const block = samples.subarray(
+    Math.floor(samples.length * 0.2),
+    Math.floor(samples.length * 0.8)
+  );
+  const coefficient = 2 * Math.cos((2 * Math.PI * frequency) / sampleRate);
+  let previous = 0;
+  let beforePrevious = 0;
+  for (let i = 0; i < block.length; i++) {
+    const current = block[i] + coefficient * previous - beforePrevious;
+    beforePrevious = previous;
+    previous = current;
+  }
+  const power =
+    previous * previous +
+    beforePrevious * beforePrevious -
+    coefficient * previous * beforePrevious;
+  return (2 * Math.sqrt(Math.max(0, power))) / block.length;
+}
+
+function decibels(amplitude: number): number {
+  return 20 * Math.log10(amplitude / AMPLITUDE);
+}
+
+const RATE_PAIRS = SUPPORTED_SAMPLE_RATES.flatMap((input) =>
+  SUPPORTED_SAMPLE_RATES.filter((output) => output !== input).map(
+    (output) => [input, output] as const
+  )
+);
+
+describe("AudioResampler", () => {
+  for (const [input, output] of RATE_PAIRS) {
+    describe(`${input} Hz -> ${output} Hz`, () => {
+      const lowerNyquist = Math.min(input, output) / 2;
+
+      it("passes tones in the passband at unity gain", () => {
+        for (const frequency of [0.1 * lowerNyquist, 0.8 * lowerNyquist]) {
+          const resampled = new AudioResampler(input, output).process(
+            sine(frequency, input, 0.5)
+          );
+          const gain = decibels(amplitudeAt(resampled, frequency, output));
+          assert.ok(
+            Math.abs(gain) < 0.1,
+            `${frequency} Hz gain ${gain.toFixed(3)} dB`
+          );
+        }
+      });
+
+      it("rejects aliases and images in the stopband", () => {
+        const higherNyquist = Math.max(input, output) / 2;
+        // Between the end of the transition band and the higher Nyquist
+        const frequency = (lowerNyquist * 1.1 + higherNyquist) / 2;
+
+        if (output < input) {
+          // Downsampling: the tone must not fold back below output Nyquist
+          const alias = Math.abs(
+            frequency - output * Math.round(frequency / output)
+          );
+          const resampled = new AudioResampler(input, output).process(
+            sine(frequency, input, 0.5)
+          );
+          const level = decibels(amplitudeAt(resampled, alias, output));
+          assert.ok(
+            level < -60,
+            `alias at ${alias} Hz: ${level.toFixed(1)} dB`
+          );
+        } else {
+          // Upsampling: the image of an in-band tone must be suppressed
+          const tone = input - frequency;
+          const resampled = new AudioResampler(input, output).process(
+            sine(tone, input, 0.5)
+          );
+          const level = decibels(amplitudeAt(resampled, frequency, output));
+          assert.ok(
+            level < -60,
+            `image at ${frequency} Hz: ${level.toFixed(1)} dB`
+          );
+        }
+      });
+
+      it("produces output in proportion to the rate ratio", () => {
+        const resampler = new AudioResampler(input, output);
+        let total = 0;
+        for (let chunk = 0; chunk < 50; chunk++) {
+          total += resampler.process(new Int16Array(input / 100)).length;
+        }
+        // 50 chunks of 10 ms
+        assert.ok(
+          Math.abs(total - output / 2) <= 1,
+          `${total} samples for 0.5 s`
+        );
+      });
+
+      it("gives the same output whatever the chunk size", () => {
+        const signal = new Int16Array(input / 10);
+        let seed = 1;
+        for (let i = 0; i < signal.length; i++) {
+          seed = (seed * 1103515245 + 12345) % 2147483648;
+          signal[i] = (seed % 20001) - 10000;
+        }
+
+        const whole = new AudioResampler(input, output).process(signal);
+
+        const chunked = new AudioResampler(input, output);
+        const parts: number[] = [];
+        const sizes = [1, 7, 160, 333, 2];
+        let offset = 0;
+        for (let i = 0; offset < signal.length; i++) {
+          const size = sizes[i % sizes.length];
+          parts.push(
+            ...chunked.process(signal.subarray(offset, offset + size))
+          );
+          offset += size;
+        }
+
+        assert.deepEqual(Int16Array.from(parts), whole);
+      });
+    });
+  }
+
+  it("returns the input unchanged for equal rates", () => {
+    const signal = sine(1000, 8000, 0.1);
+    assert.equal(new AudioResampler(8000, 8000).process(signal), signal);
+  });
+
+  it("rejects unsupported sample rates", () => {
+    assert.throws(() => new AudioResampler(11025, 8000), /Unsupported/);
+  });
+});
@@ -0,0 +1,176 @@
+export const SUPPORTED_SAMPLE_RATES = [8000, 16000, 24000, 44100, 48000];
+
+const STOPBAND_ATTENUATION_DB = 80;
+const TRANSITION_WIDTH = 0.1; // fraction of the lower Nyquist frequency
+
+/*
+ * This class converts 16-bit PCM between sample rates using a polyphase FIR
+ * filter (windowed-sinc, Kaiser window).
+ *
+ * The conversion ratio is reduced to L/M (upsample by L, downsample by M) and
+ * a single low-pass filter both removes the imaging introduced by upsampling
+ * and band-limits the signal below the output Nyquist frequency before
+ * decimation, so downsampling (e.g. 48 kHz -> 8 kHz) does not alias.
+ *
+ * The resampler is stateful: filter history and the fractional output position
+ * are carried across calls, so a stream can be processed in arbitrary chunks
+ * without clicks at chunk boundaries. Use one instance per stream and
+ * direction, and call reset() when the stream is interrupted.
+ */
+export class AudioResampler {
+  readonly inputSampleRate: number;
+  readonly outputSampleRate: number;
+
+  private upFactor: number; // L
+  private downFactor: number; // M
+  private tapsPerPhase: number;
+  private phases: Array<Float64Array>;
+
+  private history: Float64Array;
+  private position = 0; // Next output, in upsampled samples from chunk start
+
+  constructor(inputSampleRate: number, outputSampleRate: number) {
+    for (const rate of [inputSampleRate, outputSampleRate]) {
+      if (!SUPPORTED_SAMPLE_RATES.includes(rate)) {
+        throw new Error(
+          `[AudioResampler] Unsupported sample rate: ${rate}. Supported: ${SUPPORTED_SAMPLE_RATES.join(
+            ", "
+          )}`
+        );
+      }
+    }
+
+    this.inputSampleRate = inputSampleRate;
+    this.outputSampleRate = outputSampleRate;
+
+    const divisor = gcd(inputSampleRate, outputSampleRate);
+    this.upFactor = outputSampleRate / divisor;
+    this.downFactor = inputSampleRate / divisor;
+
+    const prototype = this.designFilter();
+    this.tapsPerPhase = prototype.length / this.upFactor;
+    this.phases = this.splitPhases(prototype);
+    this.history = new Float64Array(this.tapsPerPhase - 1);
+  }
+
+  /*
+   * Resamples the next chunk of the stream.
+   */
+  process(input: Int16Array): Int16Array {
+    if (this.upFactor === this.downFactor) {
+      return input;
+    }
+
+    const historyLength = this.history.length;
+    const samples = new Float64Array(historyLength + input.length);
+    samples.set(this.history);
+    for (let i = 0; i < input.length; i++) {
+      samples[historyLength + i] = input[i];
+    }
+
+    const upsampledLength = input.length * this.upFactor;
+    const outputLength = Math.max(
+      0,
+      Math.ceil((upsampledLength - this.position) / this.downFactor)
+    );
+    const output = new Int16Array(outputLength);
+
+    let position = this.position;
+    for (let n = 0; n < outputLength; n++) {
+      const phase = this.phases[position % this.upFactor];
+      const newest = historyLength + Math.floor(position / this.upFactor);
+
+      let sum = 0;
+      for (let k = 0; k < this.tapsPerPhase; k++) {
+        sum += phase[k] * samples[newest - k];
+      }
+
+      output[n] = clamp(Math.round(sum));
+      position += this.downFactor;
+    }
+
+    this.position = position - upsampledLength;
+    this.history = samples.slice(samples.length - historyLength);
+    return output;
+  }
+
+  reset(): void {
+    this.history.fill(0);
+    this.position = 0;
+  }
+
+  /*
+   * Windowed-sinc low-pass at the upsampled rate, cut off just below the lower
+   * of the two Nyquist frequencies. The length is rounded up to a multiple of
+   * L so every phase has the same number of taps.
+   */
+  private designFilter(): Float64Array {
+    const upsampledRate = this.inputSampleRate * this.upFactor;
+    const nyquist = Math.min(this.inputSampleRate, this.outputSampleRate) / 2;
+    const cutoff = (nyquist * (1 - TRANSITION_WIDTH / 2)) / upsampledRate;
+    const transition =
+      (2 * Math.PI * nyquist * TRANSITION_WIDTH) / upsampledRate;
+
+    const minimumLength = Math.ceil(
+      (STOPBAND_ATTENUATION_DB - 8) / (2.285 * transition)
+    );
+    const length =
+      Math.ceil(minimumLength / this.upFactor) * this.upFactor || this.upFactor;
+    const beta = 0.1102 * (STOPBAND_ATTENUATION_DB - 8.7);
+    const center = (length - 1) / 2;
+    const windowScale = besselI0(beta);
+
+    const filter = new Float64Array(length);
+    for (let i = 0; i < length; i++) {
+      const t = i - center;
+      const sinc =
+        t === 0
+          ? 2 * cutoff
+          : Math.sin(2 * Math.PI * cutoff * t) / (Math.PI * t);
+      const ratio = (2 * i) / (length - 1) - 1;
+      const window =
+        length > 1
+          ? besselI0(beta * Math.sqrt(Math.max(0, 1 - ratio * ratio))) /
+            windowScale
+          : 1;
+      // Gain of L restores the level lost to zero-stuffing
+      filter[i] = sinc * window * this.upFactor;
+    }
+    return filter;
+  }
+
+  private splitPhases(prototype: Float64Array): Array<Float64Array> {
+    const phases = new Array<Float64Array>();
+    for (let phase = 0; phase < this.upFactor; phase++) {
+      const taps = new Float64Array(this.tapsPerPhase);
+      for (let k = 0; k < this.tapsPerPhase; k++) {
+        taps[k] = prototype[phase + k * this.upFactor];
+      }
+      phases.push(taps);
+    }
+    return phases;
+  }
+}
+
+function gcd(a: number, b: number): number {
+  while (b !== 0) {
+    [a, b] = [b, a % b];
+  }
+  return a;
+}
+
+// Zeroth-order modified Bessel function of the first kind (Kaiser window)
+function besselI0(x: number): number {
+  let sum = 1;
+  let term = 1;
+  for (let k = 1; k < 50; k++) {
+    term *= (x / (2 * k)) * (x / (2 * k));
+    sum += term;
+    if (term < sum * 1e-12) break;
+  }
+  return sum;
+}
+
+function clamp(sample: number): number {
+  return Math.max(-32768, Math.min(32767, sample));
+}
@@ -0,0 +1,266 @@
+import { Session } from "../websocket/session";
+import { JsonObject, JsonStringMap } from "../protocol/core";
+import {
+  ClientToolDefinition,
+  ClientToolDispatcher,
+  ClientToolResult,
+} from "./client-tool-dispatcher";
+import {
+  getAllowedTransferQueues,
+  getDefaultTransferQueue,
+  getTransferHandoffMessage,
+} from "../common/environment-variables";
+
+/*
+ * Format of the entries in src/prompts/<promptName>Slots.json: named fields the
+ * bot has to collect, returned to the Architect flow as output variables.
+ */
+export type SlotDefinition = {
+  name: string;
+  description: string;
+  pattern?: string; // Regular expression the whole value must match
+  required?: boolean;
+};
+
+export type CollectedSlot = {
+  value: string;
+  confidence: number;
+};
+
+/*
+ * Tools every agent gets regardless of the prompt's tools file. They are
+ * handled in-process and act on the Genesys session rather than on a webhook.
+ */
+
+export const END_CALL_TOOL: ClientToolDefinition = {
+  name: "endCall",
+  description:
+    "End the call when the conversation is finished and the caller needs nothing else.",
+  parameters: [
+    {
+      name: "intent",
+      description: "The caller's main reason for calling, in a few words",
+      schema: { type: "string" },
+      required: true,
+    },
+    {
+      name: "summary",
+      description: "One or two sentence summary of the conversation",
+      schema: { type: "string" },
+      required: true,
+    },
+  ],
+};
+
+export const TRANSFER_TO_AGENT_TOOL: ClientToolDefinition = {
+  name: "transferToAgent",
+  description:
+    "Transfer the caller to a live agent when they ask for a person or you cannot help them.",
+  parameters: [
+    {
+      name: "reason",
+      description: "Why the caller needs a live agent",
+      schema: { type: "string" },
+      required: true,
+    },
+    {
+      name: "queue",
+      description: "Name of the queue to transfer to, if known",
+      schema: { type: "string" },
+    },
+    {
+      name: "summary",
+      description:
+        "Summary of the conversation so far, for the agent who takes the call",
+      schema: { type: "string" },
+      required: true,
+    },
+  ],
+};
+
+export const COLLECT_DIGITS_TOOL: ClientToolDefinition = {
+  name: "collectDigits",
+  description:
+    "Let the caller enter a number on their keypad, e.g. an account number or PIN. Call this right before asking for the digits.",
+};
+
+// Only offered when the prompt defines slots
+function createRecordSlotTool(slots: SlotDefinition[]): ClientToolDefinition {
+  return {
+    name: "recordSlot",
+    description:
+      "Record a piece of information collected from the caller. Fields to collect: " +
+      slots
+        .map(
+          (slot) =>
+            `${slot.name} (${slot.description}${
+              slot.required ? ", required" : ""
+            })`
+        )
+        .join("; "),
+    parameters: [
+      {
+        name: "name",
+        description: "Name of the field",
+        schema: { type: "string", enum: slots.map((slot) => slot.name) },
+        required: true,
+      },
+      {
+        name: "value",
+        description: "Value as confirmed by the caller",
+        schema: { type: "string" },
+        required: true,
+      },
+      {
+        name: "confidence",
+        description:
+          "How sure you are the value is correct, from 0 (guess) to 1 (confirmed)",
+        schema: { type: "number", minimum: 0, maximum: 1 },
+        required: true,
+      },
+    ],
+  };
+}
+
+export function registerBuiltInTools(
+  dispatcher: ClientToolDispatcher,
+  session: Session,
+  slots: SlotDefinition[] = []
+): void {
+  dispatcher.registerLocalTool(END_CALL_TOOL, (parameters) =>
+    endCall(session, parameters)
+  );
+  dispatcher.registerLocalTool(TRANSFER_TO_AGENT_TOOL, (parameters) =>
+    transferToAgent(session, parameters)
+  );
+  dispatcher.registerLocalTool(COLLECT_DIGITS_TOOL, () =>
+    collectDigits(session)
+  );
+
+  if (slots.length > 0) {
+    dispatcher.registerLocalTool(createRecordSlotTool(slots), (parameters) =>
+      recordSlot(session, slots, parameters)
+    );
+  }
+}
+
+function endCall(session: Session, parameters: JsonObject): ClientToolResult {
+  session.completeConversation(
+    toOutputVariables({
+      intent: parameters.intent,
+      summary: parameters.summary,
+    })
+  );
+
+  return {
+    result:
+      "The call will end once you finish speaking. If you have not said goodbye yet, say a short goodbye now.",
+    isError: false,
+  };
+}
+
+/*
+ * The transfer itself is done by the Architect flow: the connector only ends
+ * the bot session with the routing details as output variables.
+ */
+function transferToAgent(
+  session: Session,
+  parameters: JsonObject
+): ClientToolResult {
+  const queue = String(parameters.queue || getDefaultTransferQueue());
+  const allowedQueues = getAllowedTransferQueues();
+  if (
+    queue &&
+    allowedQueues.length > 0 &&
+    !allowedQueues.some(
+      (allowed) => allowed.toLowerCase() === queue.toLowerCase()
+    )
+  ) {
+    return {
+      result: `Unknown queue "${queue}". Available queues: ${allowedQueues.join(
+        ", "
+      )}`,
+      isError: true,
+    };
+  }
+
+  session.completeConversation(
+    toOutputVariables({
+      transferRequested: "true",
+      transferQueue: queue,
+      transferReason: parameters.reason,
+      conversationSummary: parameters.summary,
+    }),
+    "Transfer to agent requested"
+  );
+
+  return {
+    result: `Tell the caller: "${getTransferHandoffMessage()}" Do not say anything else.`,
+    isError: false,
+  };
+}
+
+/*
+ * The digits reach the agent as a user message once the capture ends, as for
+ * digits the caller enters unprompted.
+ */
+function collectDigits(session: Session): ClientToolResult {
+  session.startDTMFCapture();
+
+  return {
+    result:
+      "Ask the caller to enter the digits on their keypad now, then wait for them.",
+    isError: false,
+  };
+}
+
+function recordSlot(
+  session: Session,
+  slots: SlotDefinition[],
+  parameters: JsonObject
+): ClientToolResult {
+  const slot = slots.find((slot) => slot.name === parameters.name);
+  if (!slot) {
+    return { result: `Unknown field "${parameters.name}"`, isError: true };
+  }
+
+  const value = String(parameters.value ?? "").trim();
+  if (
+    !value ||
+    (slot.pattern && !new RegExp(`^(?:${slot.pattern})$`).test(value))
+  ) {
+    return {
+      result: `"${value}" is not a valid ${slot.name}. Ask the caller again.`,
+      isError: true,
+    };
+  }
+
+  const confidence = Number(parameters.confidence);
+  session.setSlot(slot.name, {
+    value,
+    confidence: isNaN(confidence) ? 1 : Math.min(1, Math.max(0, confidence)),
+  });
+
+  const collected = session.getCollectedSlots();
+  const missing = slots
+    .filter((slot) => slot.required && !collected.has(slot.name))
+    .map((slot) => slot.name);
+
+  return {
+    result: missing.length
+      ? `Recorded ${slot.name}. Still needed: ${missing.join(", ")}.`
+      : `Recorded ${slot.name}. All required fields are collected.`,
+    isError: false,
+  };
+}
+
+// Architect output variables are strings; unset values are left out
+export function toOutputVariables(values: JsonObject): JsonStringMap {
+  const outputVariables: JsonStringMap = {};
+  Object.entries(values).forEach(([key, value]) => {
+    if (value === undefined || value === null || value === "") return;
+    outputVariables[key] =
+      typeof value === "string" ? value : JSON.stringify(value);
+  });
+  return outputVariables;
+}
@@ -0,0 +1,198 @@
+import fetch from "node-fetch";
+import { Session } from "../websocket/session";
+import { JsonObject, JsonStringMap, JsonValue } from "../protocol/core";
+import {
+  getISTTime,
+  getToolPauseThreshold,
+  getToolWebhookBaseUrl,
+  getToolWebhookTimeout,
+} from "../common/environment-variables";
+
+export type ClientToolParameter = {
+  name: string;
+  description?: string;
+  schema: JsonObject; // JSON schema of the parameter value
+  required?: boolean;
+};
+
+export type ClientToolEndpoint = {
+  url: string;
+  method?: "GET" | "POST";
+  headers?: JsonStringMap;
+  timeoutMs?: number;
+};
+
+/*
+ * Format of the entries in src/prompts/<promptName>Tools.json. Tools without
+ * an endpoint are posted to TOOL_WEBHOOK_BASE_URL/<name>.
+ */
+export type ClientToolDefinition = {
+  name: string;
+  description: string;
+  parameters?: ClientToolParameter[];
+  endpoint?: ClientToolEndpoint;
+};
+
+export type ClientToolResult = {
+  result: string;
+  isError: boolean;
+};
+
+export type LocalToolHandler = (
+  parameters: JsonObject
+) => ClientToolResult | Promise<ClientToolResult>;
+
+/*
+ * This class executes client tools invoked by a voice agent.
+ *
+ * Tools are either handled in-process (registerLocalTool, used for the
+ * connector's built-in tools) or forwarded to an HTTP webhook. Webhook calls
+ * are bounded by a timeout and every failure is turned into an error result,
+ * so the agent always gets an answer it can speak to. A webhook that takes
+ * longer than TOOL_PAUSE_THRESHOLD pauses the audio stream until every slow
+ * call has returned, so the caller is not heard while nothing can answer.
+ */
+export class ClientToolDispatcher {
+  private session: Session;
+  private definitions: Map<string, ClientToolDefinition> = new Map();
+  private localHandlers: Map<string, LocalToolHandler> = new Map();
+  private slowCallCount = 0;
+
+  constructor(session: Session, definitions: ClientToolDefinition[]) {
+    this.session = session;
+    definitions.forEach((definition) => {
+      if (!definition?.name || !definition?.description) {
+        console.error(
+          `${getISTTime()}:[ClientTools] Ignoring invalid tool definition: ${JSON.stringify(
+            definition
+          )}`
+        );
+        return;
+      }
+      this.definitions.set(definition.name, definition);
+    });
+  }
+
+  getDefinitions(): ClientToolDefinition[] {
+    return Array.from(this.definitions.values());
+  }
+
+  registerLocalTool(
+    definition: ClientToolDefinition,
+    handler: LocalToolHandler
+  ): void {
+    this.definitions.set(definition.name, definition);
+    this.localHandlers.set(definition.name, handler);
+  }
+
+  async dispatch(
+    toolName: string,
+    invocationId: string,
+    parameters: JsonObject
+  ): Promise<ClientToolResult> {
+    const definition = this.definitions.get(toolName);
+    if (!definition) {
+      console.error(`${getISTTime()}:[ClientTools] Unknown tool: ${toolName}`);
+      return { result: `Unknown tool: ${toolName}`, isError: true };
+    }
+
+    const started = Date.now();
+    const localHandler = this.localHandlers.get(toolName);
+    let slow = false;
+    const threshold = getToolPauseThreshold();
+    const slowTimer =
+      localHandler || threshold <= 0
+        ? null
+        : setTimeout(() => {
+            slow = true;
+            if (this.slowCallCount++ === 0) {
+              console.log(
+                `${getISTTime()}:[ClientTools] ${toolName} (${invocationId}) still running after ${threshold}ms - pausing audio`
+              );
+              this.session.pause();
+            }
+          }, threshold);
+
+    try {
+      const result = localHandler
+        ? await localHandler(parameters)
+        : await this.callWebhook(definition, invocationId, parameters);
+
+      console.log(
+        `${getISTTime()}:[ClientTools] ${toolName} (${invocationId}) completed in ${
+          Date.now() - started
+        }ms${result.isError ? " with error" : ""}`
+      );
+      return result;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(
+        `${getISTTime()}:[ClientTools] ${toolName} (${invocationId}) failed after ${
+          Date.now() - started
+        }ms:`,
+        message
+      );
+      return { result: `Tool ${toolName} failed: ${message}`, isError: true };
+    } finally {
+      if (slowTimer) clearTimeout(slowTimer);
+      if (slow && --this.slowCallCount === 0) {
+        this.session.resume();
+      }
+    }
+  }
+
+  private async callWebhook(
+    definition: ClientToolDefinition,
+    invocationId: string,
+    parameters: JsonObject
+  ): Promise<ClientToolResult> {
+    const endpoint = definition.endpoint || {
+      url: `${getToolWebhookBaseUrl()}/${definition.name}`,
+    };
+    if (!endpoint.url || endpoint.url.startsWith("/")) {
+      throw new Error("No webhook endpoint configured");
+    }
+
+    const method = endpoint.method || "POST";
+    const payload: { [key: string]: JsonValue | undefined } = {
+      toolName: definition.name,
+      invocationId,
+      parameters,
+      sessionId: this.session.getClientSessionId(),
+      conversationId: this.session.getConversationId(),
+      inputVariables: this.session.getInputVariables(),
+    };
+
+    let url = endpoint.url;
+    if (method === "GET") {
+      const query = new URLSearchParams();
+      Object.entries(parameters).forEach(([key, value]) =>
+        query.set(
+          key,
+          typeof value === "string" ? value : JSON.stringify(value)
+        )
+      );
+      url += (url.includes("?") ? "&" : "?") + query.toString();
+    }
+
+    const response = await fetch(url, {
+      method,
+      headers: {
+        "Content-Type": "application/json",
+        ...(endpoint.headers || {}),
+      },
+      body: method === "POST" ? JSON.stringify(payload) : undefined,
+      timeout: endpoint.timeoutMs || getToolWebhookTimeout(),
+    });
+
+    const text = await response.text();
+    if (!response.ok) {
+      return {
+        result: `Tool ${definition.name} returned ${response.status}: ${text}`,
+        isError: true,
+      };
+    }
+
+    return { result: text, isError: false };
+  }
+}
@@ -0,0 +1,158 @@
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { DTMFOptions, DTMFService } from "./dtmf-service";
+
+const OPTIONS: DTMFOptions = {
+  firstDigitTimeoutMs: 5000,
+  interDigitTimeoutMs: 3000,
+  minDigits: 1,
+  maxDigits: 0,
+  terminators: "#",
+  abortKey: "*",
+};
+
+type Outcome = { event: string; digits: string };
+
+function createService(options: Partial<DTMFOptions> = {}) {
+  const outcomes: Outcome[] = [];
+  const service = new DTMFService({ ...OPTIONS, ...options });
+  ["complete", "timeout", "aborted", "error"].forEach((event) =>
+    service.on(event, (digits: string) => outcomes.push({ event, digits }))
+  );
+  return { service, outcomes };
+}
+
+function enter(service: DTMFService, digits: string) {
+  [...digits].forEach((digit) => service.processDigit(digit));
+}
+
+describe("DTMFService", () => {
+  beforeEach(() => {
+    mock.timers.enable({ apis: ["setTimeout"] });
+  });
+
+  afterEach(() => {
+    mock.timers.reset();
+  });
+
+  it("completes on a terminator", () => {
+    const { service, outcomes } = createService();
+    enter(service, "123#");
+    assert.deepEqual(outcomes, [{ event: "complete", digits: "123" }]);
+    assert.equal(service.getState(), "Complete");
+  });
+
+  it("completes on reaching maxDigits", () => {
+    const { service, outcomes } = createService({ maxDigits: 4 });
+    enter(service, "1234");
+    assert.deepEqual(outcomes, [{ event: "complete", digits: "1234" }]);
+  });
+
+  it("ignores a terminator before minDigits", () => {
+    const { service, outcomes } = createService({ minDigits: 3 });
+    enter(service, "12#");
+    assert.deepEqual(outcomes, []);
+
+    enter(service, "3#");
+    assert.deepEqual(outcomes, [{ event: "complete", digits: "123" }]);
+  });
+
+  it("completes after the inter-digit timeout once minDigits are in", () => {
+    const { service, outcomes } = createService({ minDigits: 2 });
+    enter(service, "12");
+    mock.timers.tick(2999);
+    enter(service, "3"); // Restarts the timeout
+    mock.timers.tick(2999);
+    assert.deepEqual(outcomes, []);
+
+    mock.timers.tick(1);
+    assert.deepEqual(outcomes, [{ event: "complete", digits: "123" }]);
+  });
+
+  it("times out after the inter-digit timeout below minDigits", () => {
+    const { service, outcomes } = createService({ minDigits: 4 });
+    enter(service, "12");
+    mock.timers.tick(3000);
+    assert.deepEqual(outcomes, [{ event: "timeout", digits: "12" }]);
+  });
+
+  it("times out when no digit follows start()", () => {
+    const { service, outcomes } = createService();
+    service.start();
+    mock.timers.tick(4999);
+    assert.deepEqual(outcomes, []);
+
+    mock.timers.tick(1);
+    assert.deepEqual(outcomes, [{ event: "timeout", digits: "" }]);
+  });
+
+  it("switches from the first-digit to the inter-digit timeout", () => {
+    const { service, outcomes } = createService();
+    service.start();
+    mock.timers.tick(4000);
+    enter(service, "7");
+    mock.timers.tick(2999);
+    assert.deepEqual(outcomes, []);
+
+    mock.timers.tick(1);
+    assert.deepEqual(outcomes, [{ event: "complete", digits: "7" }]);
+  });
+
+  it("does not time out when timeouts are disabled", () => {
+    const { service, outcomes } = createService({
+      firstDigitTimeoutMs: 0,
+      interDigitTimeoutMs: 0,
+    });
+    service.start();
+    enter(service, "12");
+    mock.timers.tick(60000);
+    assert.deepEqual(outcomes, []);
+
+    enter(service, "#");
+    assert.deepEqual(outcomes, [{ event: "complete", digits: "12" }]);
+  });
+
+  it("accepts an empty entry with minDigits 0", () => {
+    const { service, outcomes } = createService({ minDigits: 0 });
+    enter(service, "#");
+    assert.deepEqual(outcomes, [{ event: "complete", digits: "" }]);
+  });
+
+  it("aborts on the abort key", () => {
+    const { service, outcomes } = createService();
+    enter(service, "12*");
+    assert.deepEqual(outcomes, [{ event: "aborted", digits: "12" }]);
+  });
+
+  it("treats the abort key as a digit when aborting is disabled", () => {
+    const { service, outcomes } = createService({ abortKey: "" });
+    enter(service, "1*2#");
+    assert.deepEqual(outcomes, [{ event: "complete", digits: "1*2" }]);
+  });
+
+  it("supports several terminators", () => {
+    const { service, outcomes } = createService({
+      terminators: "#*",
+      abortKey: "",
+    });
+    enter(service, "5*");
+    assert.deepEqual(outcomes, [{ event: "complete", digits: "5" }]);
+  });
+
+  it("reports digits after the capture ended as an error", () => {
+    const { service, outcomes } = createService();
+    enter(service, "1#2");
+    assert.deepEqual(outcomes, [
+      { event: "complete", digits: "1" },
+      { event: "error", digits: "DTMF digits already received." },
+    ]);
+  });
+
+  it("emits nothing once cancelled", () => {
+    const { service, outcomes } = createService();
+    enter(service, "12");
+    service.cancel();
+    mock.timers.tick(10000);
+    assert.deepEqual(outcomes, []);
+  });
+});
@@ -1,5 +1,16 @@
 import EventEmitter from "events";
 
+export type DTMFOptions = {
+  firstDigitTimeoutMs: number; // From start() until the first digit
+  interDigitTimeoutMs: number; // Between digits
+  minDigits: number;
+  maxDigits: number; // Capture completes without a terminator at this length
+  terminators: string; // Any of these digits ends the capture, e.g. "#"
+  abortKey: string; // Cancels the capture, e.g. "*" ("" to disable)
+};
+
+export type DTMFOutcome = "complete" | "timeout" | "aborted";
+
 /*
  * This class provides DTMF support for the incoming DTMF digits from the Client.
  * The following events are expected from the session:
@@ -7,17 +18,34 @@ import EventEmitter from "events";
  *   Name; error
  *   Parameters: Error message string or error object.
  *
- *   Name: final-digits
+ *   Name: complete
  *   Parameters: A string representing all of the captured DTMF digits.
  *
+ *   Name: timeout
+ *   Parameters: The digits captured before the caller stopped entering digits
+ *   (fewer than minDigits).
+ *
+ *   Name: aborted
+ *   Parameters: The digits captured before the abort key was pressed.
+ *
+ * A capture completes on a terminating digit, on reaching maxDigits, or when the
+ * inter-digit timeout elapses after at least minDigits digits. A terminating
+ * digit pressed before minDigits is ignored.
+ *
  * The current usage of this class requires that a new instance be created for
- * each set of DTMF digits received. Once a terminating digit is received, a
- * new instance must be created.
+ * each set of DTMF digits received. Once the capture has ended, a new instance
+ * must be created.
  */
 export class DTMFService {
   private emitter = new EventEmitter();
   private state = "None";
   private digits = "";
+  private options: DTMFOptions;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(options: DTMFOptions) {
+    this.options = options;
+  }
 
   on(event: string, listener: (...args: any[]) => void): DTMFService {
     this.emitter?.addListener(event, listener);
@@ -29,11 +57,18 @@ export class DTMFService {
   }
 
   /*
-   * For this implementation, we are just going to continue to capture digits until we
-   * received a terminating digit (specifically, #). A more robust implementation will
-   * need to be able to handle the case where a terminating digit is not received - for
-   * that case, an inter-digit timeout should be implemented.
+   * Starts waiting for the first digit. Calling this is optional: a capture
+   * also starts with its first digit, in which case no first-digit timeout
+   * applies.
    */
+  start(): DTMFService {
+    if (this.state === "None") {
+      this.state = "Processing";
+      this.startTimer(this.options.firstDigitTimeoutMs);
+    }
+    return this;
+  }
+
   processDigit(digit: string): DTMFService {
     if (this.state === "Complete") {
       this.emitter.emit("error", "DTMF digits already received.");
@@ -42,17 +77,70 @@ export class DTMFService {
 
     this.state = "Processing";
 
-    // If we get a terminating digit, mark this instance as complete, send out the event,
-    // and reset the digits to help prevent possible leaking of digits if this instance is
-    // attempted to be reused.
-    if (digit === "#") {
-      this.state = "Complete";
-      this.emitter.emit("final-digits", this.digits);
-      this.digits = "";
+    if (this.options.abortKey && digit === this.options.abortKey) {
+      this.finish("aborted");
+      return this;
+    }
+
+    if (this.options.terminators.includes(digit)) {
+      if (this.digits.length >= this.options.minDigits) {
+        this.finish("complete");
+      } else {
+        this.startTimer(this.options.interDigitTimeoutMs);
+      }
       return this;
     }
 
     this.digits += digit;
+    if (
+      this.options.maxDigits > 0 &&
+      this.digits.length >= this.options.maxDigits
+    ) {
+      this.finish("complete");
+      return this;
+    }
+
+    this.startTimer(this.options.interDigitTimeoutMs);
     return this;
   }
+
+  // Stops the capture without emitting anything (e.g. session closing)
+  cancel(): void {
+    this.stopTimer();
+    this.state = "Complete";
+    this.digits = "";
+  }
+
+  private startTimer(timeoutMs: number) {
+    this.stopTimer();
+    if (timeoutMs <= 0) {
+      return;
+    }
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.finish(
+        this.digits.length > 0 && this.digits.length >= this.options.minDigits
+          ? "complete"
+          : "timeout"
+      );
+    }, timeoutMs);
+  }
+
+  private stopTimer() {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  // Mark this instance as complete, send out the event, and reset the digits to
+  // help prevent possible leaking of digits if this instance is reused.
+  private finish(event: DTMFOutcome) {
+    this.stopTimer();
+    this.state = "Complete";
+    const digits = this.digits;
+    this.digits = "";
+    this.emitter.emit(event, digits);
+  }
 }
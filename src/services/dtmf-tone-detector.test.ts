@@ -0,0 +1,117 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { DTMFToneDetector } from "./dtmf-tone-detector";
+
+const SAMPLE_RATE = 8000;
+const CHUNK_SAMPLES = 160; // 20 ms, as AudioHook sends it
+const AMPLITUDE = 8000; // Per tone, about -12 dBFS
+
+const TONES: Record<string, [number, number]> = {
+  "1": [697, 1209],
+  "2": [697, 1336],
+  "3": [697, 1477],
+  A: [697, 1633],
+  "4": [770, 1209],
+  "5": [770, 1336],
+  "6": [770, 1477],
+  B: [770, 1633],
+  "7": [852, 1209],
+  "8": [852, 1336],
+  "9": [852, 1477],
+  C: [852, 1633],
+  "*": [941, 1209],
+  "0": [941, 1336],
+  "#": [941, 1477],
+  D: [941, 1633],
+};
+
+function samples(ms: number, sample: (t: number) => number): number[] {
+  const count = Math.round((SAMPLE_RATE * ms) / 1000);
+  return Array.from({ length: count }, (_, i) =>
+    Math.round(sample(i / SAMPLE_RATE))
+  );
+}
+
+function tone(frequencies: number[], ms: number): number[] {
+  return samples(ms, (t) =>
+    frequencies.reduce(
+      (sum, frequency) =>
+        sum + AMPLITUDE * Math.sin(2 * Math.PI * frequency * t),
+      0
+    )
+  );
+}
+
+function silence(ms: number): number[] {
+  return samples(ms, () => 0);
+}
+
+// Feeds the audio in 20 ms chunks and collects the reported digits
+function detect(audio: number[]): string[] {
+  const detector = new DTMFToneDetector(SAMPLE_RATE);
+  const digits: string[] = [];
+  for (let offset = 0; offset < audio.length; offset += CHUNK_SAMPLES) {
+    const chunk = Int16Array.from(audio.slice(offset, offset + CHUNK_SAMPLES));
+    digits.push(...detector.process(chunk).digits);
+  }
+  return digits;
+}
+
+describe("DTMFToneDetector", () => {
+  it("detects every keypad digit", () => {
+    const keys = Object.keys(TONES);
+    const audio = keys.flatMap((key) => [
+      ...tone(TONES[key], 80),
+      ...silence(80),
+    ]);
+    assert.deepEqual(detect(audio), keys);
+  });
+
+  it("reports a long press once", () => {
+    assert.deepEqual(detect([...tone(TONES["5"], 1000), ...silence(100)]), [
+      "5",
+    ]);
+  });
+
+  it("reports a repeated digit after a gap", () => {
+    const press = [...tone(TONES["9"], 80), ...silence(80)];
+    assert.deepEqual(detect([...press, ...press]), ["9", "9"]);
+  });
+
+  it("ignores a tone shorter than two blocks", () => {
+    assert.deepEqual(detect([...tone(TONES["1"], 30), ...silence(100)]), []);
+  });
+
+  it("rejects single tones", () => {
+    assert.deepEqual(detect(tone([697], 500)), []);
+    assert.deepEqual(detect(tone([1209], 500)), []);
+  });
+
+  it("rejects silence", () => {
+    assert.deepEqual(detect(silence(500)), []);
+  });
+
+  it("rejects noise", () => {
+    let seed = 1;
+    const noise = samples(1000, () => {
+      seed = (seed * 1103515245 + 12345) % 2147483648;
+      return (seed / 2147483648 - 0.5) * 2 * AMPLITUDE;
+    });
+    assert.deepEqual(detect(noise), []);
+  });
+
+  it("rejects a voiced, speech-like sound", () => {
+    // 120 Hz fundamental with falling harmonics up to 4 kHz, gliding in pitch
+    const voice = samples(1000, (t) => {
+      const fundamental = 120 + 40 * t;
+      let sum = 0;
+      for (let harmonic = 1; harmonic * fundamental < 4000; harmonic++) {
+        sum +=
+          (AMPLITUDE / harmonic) *
+          Math.sin(2 * Math.PI * fundamental * harmonic * t);
+      }
+      return sum / 2;
+    });
+    assert.deepEqual(detect(voice), []);
+  });
+});
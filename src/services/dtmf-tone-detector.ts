@@ -0,0 +1,188 @@
+const ROW_FREQUENCIES = [697, 770, 852, 941];
+const COLUMN_FREQUENCIES = [1209, 1336, 1477, 1633];
+const KEYPAD = [
+  ["1", "2", "3", "A"],
+  ["4", "5", "6", "B"],
+  ["7", "8", "9", "C"],
+  ["*", "0", "#", "D"],
+];
+
+const BLOCK_MS = 25.625; // 205 samples at 8 kHz, the classic Goertzel block
+const MIN_MEAN_POWER = 10000; // RMS of 100, about -50 dBFS; quieter is silence
+const MIN_TONE_FRACTION = 0.7; // Share of block energy in the two tones
+const MIN_PEAK_RATIO = 4; // 6 dB over the other frequencies of the group
+const MAX_FORWARD_TWIST = 6.3; // Column over row, 8 dB
+const MAX_REVERSE_TWIST = 2.5; // Row over column, 4 dB
+const MIN_TONE_BLOCKS = 2; // ~50 ms of tone before a digit is reported
+const MIN_GAP_BLOCKS = 2; // ~50 ms without tone before the next digit
+
+export type DTMFToneResult = {
+  digits: string[]; // Digits whose tone started in this chunk
+  toneActive: boolean; // A tone (or tone candidate) is present at the end
+};
+
+/*
+ * This class detects DTMF tones in 16-bit PCM audio, for carriers that pass
+ * keypad presses in-band instead of as AudioHook "dtmf" messages.
+ *
+ * Audio is analysed in fixed blocks with the Goertzel algorithm at the eight
+ * DTMF frequencies. A block holds a digit when one row and one column tone
+ * dominate their groups, carry most of the block's energy and are within the
+ * allowed twist. A digit is reported once it has lasted MIN_TONE_BLOCKS
+ * blocks, and again only after a gap, so a long press yields one digit.
+ *
+ * The detector is stateful: use one instance per stream and call reset() when
+ * the stream is interrupted.
+ */
+export class DTMFToneDetector {
+  private blockSize: number;
+  private coefficients: number[];
+  private block: Int16Array;
+  private blockLength = 0;
+
+  private candidate: string | null = null;
+  private candidateBlocks = 0;
+  private reported: string | null = null;
+  private gapBlocks = 0;
+
+  constructor(sampleRate: number) {
+    this.blockSize = Math.round((sampleRate * BLOCK_MS) / 1000);
+    this.coefficients = [...ROW_FREQUENCIES, ...COLUMN_FREQUENCIES].map(
+      (frequency) => 2 * Math.cos((2 * Math.PI * frequency) / sampleRate)
+    );
+    this.block = new Int16Array(this.blockSize);
+  }
+
+  process(samples: Int16Array): DTMFToneResult {
+    const digits: string[] = [];
+
+    let offset = 0;
+    while (offset < samples.length) {
+      const count = Math.min(
+        this.blockSize - this.blockLength,
+        samples.length - offset
+      );
+      this.block.set(
+        samples.subarray(offset, offset + count),
+        this.blockLength
+      );
+      this.blockLength += count;
+      offset += count;
+
+      if (this.blockLength === this.blockSize) {
+        const digit = this.update(this.detectBlock(this.block));
+        if (digit) digits.push(digit);
+        this.blockLength = 0;
+      }
+    }
+
+    return {
+      digits,
+      toneActive: this.candidate !== null || this.reported !== null,
+    };
+  }
+
+  reset(): void {
+    this.blockLength = 0;
+    this.candidate = null;
+    this.candidateBlocks = 0;
+    this.reported = null;
+    this.gapBlocks = 0;
+  }
+
+  // Debounce per-block results; returns a digit when one is confirmed
+  private update(digit: string | null): string | null {
+    if (digit === null) {
+      this.candidate = null;
+      this.candidateBlocks = 0;
+      if (this.reported !== null && ++this.gapBlocks >= MIN_GAP_BLOCKS) {
+        this.reported = null;
+      }
+      return null;
+    }
+
+    this.gapBlocks = 0;
+    if (digit === this.reported) {
+      return null;
+    }
+
+    if (digit !== this.candidate) {
+      this.candidate = digit;
+      this.candidateBlocks = 0;
+    }
+    if (++this.candidateBlocks < MIN_TONE_BLOCKS) {
+      return null;
+    }
+
+    this.reported = digit;
+    this.candidate = null;
+    this.candidateBlocks = 0;
+    return digit;
+  }
+
+  private detectBlock(block: Int16Array): string | null {
+    let energy = 0;
+    for (let i = 0; i < block.length; i++) {
+      energy += block[i] * block[i];
+    }
+    if (energy / block.length < MIN_MEAN_POWER) {
+      return null;
+    }
+
+    const powers = this.coefficients.map((coefficient) =>
+      goertzelPower(block, coefficient)
+    );
+    const rows = powers.slice(0, ROW_FREQUENCIES.length);
+    const columns = powers.slice(ROW_FREQUENCIES.length);
+
+    const row = strongest(rows);
+    const column = strongest(columns);
+    if (row < 0 || column < 0) {
+      return null;
+    }
+
+    const rowPower = rows[row];
+    const columnPower = columns[column];
+    if (
+      columnPower > rowPower * MAX_FORWARD_TWIST ||
+      rowPower > columnPower * MAX_REVERSE_TWIST
+    ) {
+      return null;
+    }
+
+    // A pure tone of N samples has Goertzel power N/2 times its energy
+    const toneEnergy = ((rowPower + columnPower) * 2) / block.length;
+    if (toneEnergy < energy * MIN_TONE_FRACTION) {
+      return null;
+    }
+
+    return KEYPAD[row][column];
+  }
+}
+
+function goertzelPower(block: Int16Array, coefficient: number): number {
+  let previous = 0;
+  let beforePrevious = 0;
+  for (let i = 0; i < block.length; i++) {
+    const current = block[i] + coefficient * previous - beforePrevious;
+    beforePrevious = previous;
+    previous = current;
+  }
+  return (
+    previous * previous +
+    beforePrevious * beforePrevious -
+    coefficient * previous * beforePrevious
+  );
+}
+
+// Index of the peak, or -1 when it does not stand out from the rest of the group
+function strongest(powers: number[]): number {
+  let peak = 0;
+  for (let i = 1; i < powers.length; i++) {
+    if (powers[i] > powers[peak]) peak = i;
+  }
+  const dominant = powers.every(
+    (power, i) => i === peak || power * MIN_PEAK_RATIO <= powers[peak]
+  );
+  return dominant ? peak : -1;
+}
@@ -0,0 +1,107 @@
+import fs from "fs";
+import path from "path";
+import {
+  JsonObject,
+  JsonStringMap,
+  LanguageCode,
+  SequenceNumber,
+} from "../protocol/core";
+import {
+  getISTTime,
+  getSessionStateDir,
+  getSessionStateTtl,
+} from "../common/environment-variables";
+
+export type SessionSnapshot = {
+  sessionId: string;
+  conversationId?: string;
+  serverseq: SequenceNumber;
+  clientseq: SequenceNumber;
+  inputVariables: JsonStringMap;
+  language?: LanguageCode;
+  agentState: JsonObject;
+  savedAt: number;
+};
+
+/*
+ * This class keeps the state of sessions that were asked to reconnect, so that
+ * the follow-up session opened by Genesys (with "continuedSessions") can pick up
+ * where the previous one left off.
+ *
+ * Snapshots are held in memory and also written to SESSION_STATE_DIR, since a
+ * planned restart loses the in-memory copy. Snapshots older than
+ * SESSION_STATE_TTL are ignored.
+ *
+ * The agent state can hold credentials (the UltraVox joinUrl lets anyone join
+ * the call), so the directory and files are only readable by the server's user.
+ */
+export class SessionStore {
+  static snapshots = new Map<string, SessionSnapshot>();
+
+  static save(snapshot: SessionSnapshot): void {
+    SessionStore.snapshots.set(snapshot.sessionId, snapshot);
+
+    try {
+      const dir = getSessionStateDir();
+      fs.mkdirSync(dir, { recursive: true, mode: 0o700 });
+      fs.writeFileSync(
+        SessionStore.getFilePath(snapshot.sessionId),
+        JSON.stringify(snapshot),
+        { mode: 0o600 }
+      );
+      console.log(
+        `${getISTTime()}:[SessionStore] Saved snapshot: ${snapshot.sessionId}`
+      );
+    } catch (error) {
+      console.error(
+        `${getISTTime()}:[SessionStore] Failed to persist snapshot ${
+          snapshot.sessionId
+        }:`,
+        error
+      );
+    }
+  }
+
+  /*
+   * Returns the snapshot for the given session and removes it from the store,
+   * so a session can only be continued once.
+   */
+  static take(sessionId: string): SessionSnapshot | undefined {
+    let snapshot = SessionStore.snapshots.get(sessionId);
+    SessionStore.snapshots.delete(sessionId);
+
+    const filePath = SessionStore.getFilePath(sessionId);
+    try {
+      if (fs.existsSync(filePath)) {
+        snapshot =
+          snapshot ||
+          (JSON.parse(fs.readFileSync(filePath, "utf8")) as SessionSnapshot);
+        fs.unlinkSync(filePath);
+      }
+    } catch (error) {
+      console.error(
+        `${getISTTime()}:[SessionStore] Failed to read snapshot ${sessionId}:`,
+        error
+      );
+    }
+
+    if (!snapshot) {
+      return undefined;
+    }
+
+    if (Date.now() - snapshot.savedAt > getSessionStateTtl()) {
+      console.log(
+        `${getISTTime()}:[SessionStore] Snapshot expired: ${sessionId}`
+      );
+      return undefined;
+    }
+
+    return snapshot;
+  }
+
+  private static getFilePath(sessionId: string): string {
+    // Session IDs come from the client - keep them from escaping the directory
+    const fileName = sessionId.replace(/[^a-zA-Z0-9_-]/g, "_") + ".json";
+    return path.join(getSessionStateDir(), fileName);
+  }
+}
@@ -0,0 +1,84 @@
+import { getISTTime } from "../common/environment-variables";
+
+// Corrections smaller than this are jitter, not lost audio
+const RESYNC_TOLERANCE_SECONDS = 0.02;
+
+/*
+ * This class keeps a sample-accurate clock of the session's audio streams.
+ *
+ * The inbound position is the AudioHook stream position: samples received
+ * from Genesys plus audio the stream skipped (discarded by Genesys, e.g. while
+ * paused or under backpressure). It is kept in line with the "position" of
+ * Genesys messages, which is authoritative. The outbound position counts the
+ * agent audio sent to Genesys.
+ *
+ * All positions are in seconds. Samples are counted per channel.
+ */
+export class StreamClock {
+  private sampleRate: number;
+  private inboundSamples = 0;
+  private skippedSamples = 0;
+  private outboundSamples = 0;
+
+  constructor(sampleRate: number = 8000) {
+    this.sampleRate = sampleRate;
+  }
+
+  // Only changes before any audio has been counted are meaningful
+  setSampleRate(sampleRate: number): void {
+    this.sampleRate = sampleRate;
+  }
+
+  getSampleRate(): number {
+    return this.sampleRate;
+  }
+
+  addInbound(samples: number): void {
+    this.inboundSamples += samples;
+  }
+
+  addOutbound(samples: number): void {
+    this.outboundSamples += samples;
+  }
+
+  /*
+   * Audio the stream advanced over without us receiving it.
+   */
+  skip(seconds: number): void {
+    this.skippedSamples += Math.round(seconds * this.sampleRate);
+  }
+
+  /*
+   * Aligns the inbound position with a position reported by Genesys. Only
+   * moves forward: audio we counted cannot be taken back.
+   */
+  sync(positionSeconds: number): void {
+    const drift = positionSeconds - this.getPosition();
+    if (drift < RESYNC_TOLERANCE_SECONDS) {
+      return;
+    }
+
+    console.log(
+      `${getISTTime()}:[StreamClock] Position behind Genesys by ${drift.toFixed(
+        3
+      )}s - adjusting`
+    );
+    this.skip(drift);
+  }
+
+  getPosition(): number {
+    return (this.inboundSamples + this.skippedSamples) / this.sampleRate;
+  }
+
+  getOutboundPosition(): number {
+    return this.outboundSamples / this.sampleRate;
+  }
+
+  getReceivedSeconds(): number {
+    return this.inboundSamples / this.sampleRate;
+  }
+
+  getSkippedSeconds(): number {
+    return this.skippedSamples / this.sampleRate;
+  }
+}
@@ -0,0 +1,108 @@
+import { LanguageCode, MediaChannel } from "../protocol/core";
+import {
+  EventEntityDataTranscript,
+  TranscriptAlternative,
+  TranscriptInterpretation,
+  TranscriptToken,
+  TranscriptTokenType,
+} from "../protocol/entities-transcript";
+import { formatDuration } from "../common/duration";
+
+/*
+ * Recognition results as providers report them, for Session.sendTranscriptResult.
+ * All positions and durations are in seconds of stream time (see
+ * Session.getStreamPosition).
+ */
+
+export type TranscriptWord = {
+  value: string;
+  confidence: number;
+  position: number;
+  duration: number;
+  type?: TranscriptTokenType; // Defaults to "word"
+  language?: LanguageCode;
+};
+
+export type TranscriptHypothesis = {
+  confidence: number;
+  lexical?: string; // Spoken form, e.g. "twenty five dollars"
+  normalized?: string; // Display form, e.g. "$25"
+  tokens?: TranscriptWord[]; // Attached to the lexical form if there is one
+};
+
+export type TranscriptResult = {
+  channel?: MediaChannel; // Defaults to "external"
+  isFinal: boolean;
+  position?: number;
+  duration?: number;
+  language?: LanguageCode;
+  alternatives: TranscriptHypothesis[]; // Best first
+};
+
+export function buildTranscriptData(
+  id: string,
+  result: TranscriptResult
+): EventEntityDataTranscript {
+  return {
+    id,
+    channel: result.channel || "external",
+    isFinal: result.isFinal,
+    position:
+      result.position !== undefined
+        ? formatDuration(result.position)
+        : undefined,
+    duration:
+      result.duration !== undefined
+        ? formatDuration(result.duration)
+        : undefined,
+    alternatives: result.alternatives.map((hypothesis) =>
+      buildAlternative(hypothesis, result.language)
+    ),
+  };
+}
+
+function buildAlternative(
+  hypothesis: TranscriptHypothesis,
+  language: LanguageCode | undefined
+): TranscriptAlternative {
+  const tokens = hypothesis.tokens?.map(buildToken);
+  const interpretations: TranscriptInterpretation[] = [];
+
+  if (hypothesis.lexical !== undefined) {
+    interpretations.push({
+      type: "lexical",
+      transcript: hypothesis.lexical,
+      tokens,
+    });
+  }
+  if (hypothesis.normalized !== undefined) {
+    interpretations.push({
+      type: "normalized",
+      transcript: hypothesis.normalized,
+      tokens: hypothesis.lexical === undefined ? tokens : undefined,
+    });
+  }
+
+  return {
+    confidence: hypothesis.confidence,
+    languages: language ? [language] : undefined,
+    interpretations,
+  };
+}
+
+function buildToken(word: TranscriptWord): TranscriptToken {
+  return {
+    type: word.type || "word",
+    value: word.value,
+    confidence: word.confidence,
+    position: formatDuration(word.position),
+    duration: formatDuration(word.duration),
+    language: word.language,
+  };
+}
+
+// Transcript as shown in logs: the best alternative's display form
+export function getBestTranscript(result: TranscriptResult): string {
+  const best = result.alternatives[0];
+  return best?.normalized ?? best?.lexical ?? "";
+}
@@ -2,18 +2,53 @@ import WebSocket from "ws";
 import fetch from "node-fetch";
 import { Session } from "../websocket/session";
 import { VoiceAIAgentBaseClass } from "./voice-aiagent-base";
-import { getNoInputTimeout, getISTTime } from "../common/environment-variables";
+import { VoiceAIAgentRegistry } from "./voice-aiagent-registry";
+import { AudioIngestQueue } from "./audio-ingest-queue";
+import { AudioResampler } from "./audio-resampler";
+import { DTMFOutcome } from "./dtmf-service";
+import {
+  getNoInputTimeout,
+  getISTTime,
+  getInboundQueueMs,
+  getInboundOverflowPolicy,
+} from "../common/environment-variables";
+import { JsonObject, LanguageCode } from "../protocol/core";
 
 const ULTRAVOX_API_KEY = process.env.ULTRAVOX_API_KEY || "";
 const ULTRAVOX_CALL_API =
   process.env.ULTRAVOX_CALL_API || "https://api.ultravox.ai/v1/calls";
+const ULTRAVOX_VOICE = process.env.ULTRAVOX_VOICE || "terrance";
+
+// Optional per-language voices, e.g. {"es-ES":"Alejandro","hi":"Riya"}
+const ULTRAVOX_LANGUAGE_VOICES = parseLanguageVoices(
+  process.env.ULTRAVOX_LANGUAGE_VOICES
+);
+
+function parseLanguageVoices(value: string | undefined): Map<string, string> {
+  const voices = new Map<string, string>();
+  if (!value) return voices;
+
+  try {
+    Object.entries(JSON.parse(value)).forEach(([language, voice]) => {
+      voices.set(language.toLowerCase(), String(voice));
+    });
+  } catch (error) {
+    console.error(
+      `${getISTTime()}:[UltraVox] Invalid ULTRAVOX_LANGUAGE_VOICES:`,
+      error
+    );
+  }
+  return voices;
+}
 
 //  Audio format configuration based on official docs
-const GENESYS_SAMPLE_RATE = 8000; // Genesys PCMU
+const GENESYS_SAMPLE_RATE = 8000; // Genesys PCMU / L16
 const ULTRAVOX_SAMPLE_RATE = 48000; // UltraVox requirement from docs
 const AUDIO_FRAME_SIZE_MS = 20; // 20ms frames as required
 const BYTES_PER_SAMPLE = 2; // 16-bit = 2 bytes
 const CHANNELS = 1; // Mono
+const LOST_AUDIO_NOTICE_SECONDS = 1; // Shorter gaps are unlikely to lose words
+const DEFAULT_TRANSCRIPT_CONFIDENCE = 0.9; // UltraVox reports no ASR confidence
 
 export class UltraVoxAgent extends VoiceAIAgentBaseClass {
   private ultraVoxWs: WebSocket | null = null;
@@ -21,24 +56,54 @@ export class UltraVoxAgent extends VoiceAIAgentBaseClass {
   private joinUrl: string = "";
   private isInitializing: boolean = false;
   private audioStreamingTask: NodeJS.Timeout | null = null;
-  private audioBuffer: Int16Array = new Int16Array(0);
-  private lastAudioSendTime = 0;
-  private readonly MIN_SEND_INTERVAL = 50;
+  private streamingStart = 0;
+  private framesStreamed = 0;
+  private audioBuffer = new AudioIngestQueue(
+    Math.floor((ULTRAVOX_SAMPLE_RATE * getInboundQueueMs()) / 1000),
+    getInboundOverflowPolicy(),
+    "UltraVox"
+  );
+  private inboundResampler = new AudioResampler(
+    GENESYS_SAMPLE_RATE,
+    ULTRAVOX_SAMPLE_RATE
+  );
+  private outboundResampler = new AudioResampler(
+    ULTRAVOX_SAMPLE_RATE,
+    GENESYS_SAMPLE_RATE
+  );
+  private isInputPaused = false;
+  private activeVoice: string = "";
+  private partialTranscripts = new Map<number, string>();
+  private speechStart: { user?: number; agent?: number } = {};
+  private speechEnd: { user?: number; agent?: number } = {};
+  private callState = "";
+  private textSent = false; // A user_text_message is waiting for an answer
 
   constructor(session: Session) {
     super(
       session,
       () => {
         console.log(`${getISTTime()}:[UltraVox] No input timeout`);
-        this.handleNoInput();
+        this.processNoInput();
       },
       getNoInputTimeout()
     );
 
-    this.initializeUltraVoxCall();
+    const continuedState = session.getContinuedAgentState();
+    if (continuedState?.callId && continuedState?.joinUrl) {
+      this.rejoinUltraVoxCall(
+        String(continuedState.callId),
+        String(continuedState.joinUrl),
+        String(continuedState.voice || ULTRAVOX_VOICE)
+      );
+    } else {
+      this.initializeUltraVoxCall();
+    }
   }
 
-  private async createCall(): Promise<{ callId: string; joinUrl: string }> {
+  private async createCall(
+    priorCallId?: string
+  ): Promise<{ callId: string; joinUrl: string }> {
     const todayDate = new Date().toLocaleString();
     const systemPrompt = this.getSystemPrompt().replace(
       /{{TODAY_DATE}}/g,
@@ -46,11 +111,14 @@ export class UltraVoxAgent extends VoiceAIAgentBaseClass {
     );
 
     //  Correct configuration based on official docs
+    const agentConfig = this.session.getAgentConfig();
     const callConfig = {
       systemPrompt: systemPrompt,
-      model: process.env.ULTRAVOX_MODEL || "fixie-ai/ultravox",
-      voice: process.env.ULTRAVOX_VOICE || "terrance",
-      temperature: 0.3,
+      model:
+        agentConfig.model || process.env.ULTRAVOX_MODEL || "fixie-ai/ultravox",
+      voice: this.getVoice(),
+      languageHint: this.session.getLanguage(),
+      temperature: agentConfig.temperature ?? 0.3,
       firstSpeaker: "FIRST_SPEAKER_AGENT",
       medium: {
         serverWebSocket: {
@@ -59,12 +127,17 @@ export class UltraVoxAgent extends VoiceAIAgentBaseClass {
           clientBufferSizeMs: 60, // Keep at 60ms as recommended
         },
       },
-      selectedTools: [],
+      selectedTools: this.getUltraVoxTools(),
     };
 
     console.log(`${getISTTime()}:[UltraVox] Creating call with correct config`);
 
-    const response = await fetch(ULTRAVOX_CALL_API, {
+    // Continuing from a prior call carries its conversation history over
+    const callApi = priorCallId
+      ? `${ULTRAVOX_CALL_API}?priorCallId=${encodeURIComponent(priorCallId)}`
+      : ULTRAVOX_CALL_API;
+
+    const response = await fetch(callApi, {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
@@ -83,23 +156,92 @@ export class UltraVoxAgent extends VoiceAIAgentBaseClass {
       joinUrl: string;
       [key: string]: any;
     };
+    this.activeVoice = callConfig.voice;
     return { callId: data.callId, joinUrl: data.joinUrl };
   }
 
+  // Client tools: UltraVox asks us to run them over the call WebSocket
+  private getUltraVoxTools(): object[] {
+    return this.toolDispatcher.getDefinitions().map((tool) => ({
+      temporaryTool: {
+        modelToolName: tool.name,
+        description: tool.description,
+        dynamicParameters: (tool.parameters || []).map((parameter) => ({
+          name: parameter.name,
+          location: "PARAMETER_LOCATION_BODY",
+          schema: parameter.description
+            ? { description: parameter.description, ...parameter.schema }
+            : parameter.schema,
+          required: parameter.required || false,
+        })),
+        client: {},
+      },
+    }));
+  }
+
+  private async handleClientToolInvocation(message: any): Promise<void> {
+    const { toolName, invocationId } = message;
+    console.log(
+      `${getISTTime()}:[UltraVox] Tool invocation: ${toolName} (${invocationId})`
+    );
+
+    // The caller is waiting on us, not the other way round
+    this.noInputTimer.haltTimer();
+    const { result, isError } = await this.toolDispatcher.dispatch(
+      toolName,
+      invocationId,
+      message.parameters || {}
+    );
+    this.noInputTimer.resumeTimer();
+
+    if (!this.isAgentConnected()) {
+      console.log(
+        `${getISTTime()}:[UltraVox] Dropping result of ${toolName} - call disconnected`
+      );
+      return;
+    }
+
+    const toolResult = isError
+      ? {
+          type: "client_tool_result",
+          invocationId,
+          errorType: "implementation-error",
+          errorMessage: result,
+        }
+      : { type: "client_tool_result", invocationId, result };
+    this.ultraVoxWs?.send(JSON.stringify(toolResult));
+  }
+
+  private getVoice(): string {
+    // A voice chosen for this call wins over the per-language defaults
+    const configuredVoice = this.session.getAgentConfig().voice;
+    if (configuredVoice) return configuredVoice;
+
+    const language = this.session.getLanguage()?.toLowerCase();
+    if (!language) return ULTRAVOX_VOICE;
+
+    return (
+      ULTRAVOX_LANGUAGE_VOICES.get(language) ||
+      ULTRAVOX_LANGUAGE_VOICES.get(language.split("-")[0]) ||
+      ULTRAVOX_VOICE
+    );
+  }
+
   private async connectWebSocket(joinUrl: string): Promise<void> {
     return new Promise((resolve, reject) => {
       console.log(`${getISTTime()}:[UltraVox] Connecting to: ${joinUrl}`);
 
-      this.ultraVoxWs = new WebSocket(joinUrl);
+      const ws = new WebSocket(joinUrl);
+      this.ultraVoxWs = ws;
 
       //  Set binary type for audio data
-      this.ultraVoxWs.binaryType = "arraybuffer";
+      ws.binaryType = "arraybuffer";
 
       const timeout = setTimeout(() => {
         reject(new Error("WebSocket connection timeout"));
       }, 10000);
 
-      this.ultraVoxWs.on("open", () => {
+      ws.on("open", () => {
         clearTimeout(timeout);
         console.log(
           `${getISTTime()}:[UltraVox] WebSocket connected - starting audio streaming`
@@ -108,20 +250,27 @@ export class UltraVoxAgent extends VoiceAIAgentBaseClass {
         resolve();
       });
 
-      this.ultraVoxWs.on("message", (data: any) => {
+      ws.on("message", (data: any) => {
         this.handleUltraVoxMessage(data);
       });
 
-      this.ultraVoxWs.on("error", (error: Error) => {
+      ws.on("error", (error: Error) => {
         clearTimeout(timeout);
         console.error(`${getISTTime()}:[UltraVox] WebSocket error:`, error);
         reject(error);
       });
 
-      this.ultraVoxWs.on("close", () => {
-        console.log(`${getISTTime()}:[UltraVox] WebSocket closed`);
+      ws.on("close", (code: number) => {
+        console.log(`${getISTTime()}:[UltraVox] WebSocket closed (${code})`);
+        // A replacement call may already be connected (e.g. voice switch)
+        if (this.ultraVoxWs !== ws) return;
         this.stopContinuousAudioStreaming();
         this.ultraVoxWs = null;
+
+        // UltraVox closes the socket normally when the agent hangs up
+        if (code === 1000) {
+          this.session.completeConversation({}, "Agent ended the call", false);
+        }
       });
     });
   }
@@ -139,9 +288,24 @@ export class UltraVoxAgent extends VoiceAIAgentBaseClass {
       `${getISTTime()}:[UltraVox] Starting continuous streaming: ${frameSize} samples every ${AUDIO_FRAME_SIZE_MS}ms`
     );
 
-    this.audioStreamingTask = setInterval(() => {
+    this.streamingStart = Date.now();
+    this.framesStreamed = 0;
+    this.audioStreamingTask = setInterval(
+      () => this.streamDueFrames(frameSize),
+      AUDIO_FRAME_SIZE_MS
+    );
+  }
+
+  // Intervals fire late and the lateness adds up, so pace by the wall clock
+  // and catch up on every frame that is due
+  private streamDueFrames(frameSize: number): void {
+    const dueFrames = Math.floor(
+      (Date.now() - this.streamingStart) / AUDIO_FRAME_SIZE_MS
+    );
+    while (this.framesStreamed < dueFrames) {
       this.sendAudioFrame(frameSize);
-    }, AUDIO_FRAME_SIZE_MS);
+      this.framesStreamed++;
+    }
   }
 
   private stopContinuousAudioStreaming(): void {
@@ -157,16 +321,9 @@ export class UltraVoxAgent extends VoiceAIAgentBaseClass {
   private sendAudioFrame(frameSize: number): void {
     if (!this.isAgentConnected()) return;
 
-    // Extract frame from buffer or send silence
-    let frame: Int16Array;
-
-    if (this.audioBuffer.length >= frameSize) {
-      frame = this.audioBuffer.slice(0, frameSize);
-      this.audioBuffer = this.audioBuffer.slice(frameSize);
-    } else {
-      // Send silence when no audio available (critical for UltraVox timing)
-      frame = new Int16Array(frameSize).fill(0);
-    }
+    // Extract frame from buffer, or send silence when no audio available
+    // (critical for UltraVox timing)
+    const frame = this.audioBuffer.read(frameSize) || new Int16Array(frameSize);
 
     // Convert Int16Array to ArrayBuffer for WebSocket
     const audioData = new ArrayBuffer(frame.length * 2);
@@ -178,14 +335,7 @@ export class UltraVoxAgent extends VoiceAIAgentBaseClass {
 
   //  Process incoming customer audio correctly
   async processAudio(audioPayload: Uint8Array): Promise<void> {
-    if (!this.isAgentConnected()) return;
-
-    // Add rate limiting check
-    const now = Date.now();
-    if (now - this.lastAudioSendTime < this.MIN_SEND_INTERVAL) {
-      return; // Skip this frame to prevent rate limiting
-    }
-    this.lastAudioSendTime = now;
+    if (!this.isAgentConnected() || this.isInputPaused) return;
 
     console.log(
       `${getISTTime()}:[UltraVox] Processing customer audio: ${
@@ -193,25 +343,16 @@ export class UltraVoxAgent extends VoiceAIAgentBaseClass {
       } bytes`
     );
 
-    // Keep your existing audio processing code
-    const pcmSamples = this.convertPCMUToPCMSamples(audioPayload);
-    const resampledSamples = this.resampleAudio(
-      pcmSamples,
-      GENESYS_SAMPLE_RATE,
-      ULTRAVOX_SAMPLE_RATE
-    );
+    const pcmSamples = this.session.getMediaCodec().decode(audioPayload);
+    const resampledSamples = this.inboundResampler.process(pcmSamples);
 
-    const newBuffer = new Int16Array(
-      this.audioBuffer.length + resampledSamples.length
-    );
-    newBuffer.set(this.audioBuffer);
-    newBuffer.set(resampledSamples, this.audioBuffer.length);
-    this.audioBuffer = newBuffer;
+    // Every sample is queued - the queue reports it if it ever overflows
+    this.audioBuffer.push(resampledSamples);
 
     console.log(
       `${getISTTime()}:[UltraVox] Added ${
         resampledSamples.length
-      } samples to buffer (total: ${this.audioBuffer.length})`
+      } samples to buffer (total: ${this.audioBuffer.getLength()})`
     );
   }
 
@@ -227,17 +368,15 @@ export class UltraVoxAgent extends VoiceAIAgentBaseClass {
         );
 
         // Convert 48kHz back to 8kHz for Genesys
-        const downsampledAudio = this.resampleAudio(
-          audioData,
-          ULTRAVOX_SAMPLE_RATE,
-          GENESYS_SAMPLE_RATE
-        );
+        const downsampledAudio = this.outboundResampler.process(audioData);
 
-        // Convert to PCMU for Genesys
-        const pcmuData = this.convertPCMSamplesToPCMU(downsampledAudio);
+        // Convert to the negotiated format for Genesys
+        const genesysAudio = this.session
+          .getMediaCodec()
+          .encode(downsampledAudio);
 
         // Send to Genesys customer
-        this.session.sendAudioFromAgent(pcmuData);
+        this.session.sendAudioFromAgent(genesysAudio);
         return;
       }
 
@@ -251,44 +390,26 @@ export class UltraVoxAgent extends VoiceAIAgentBaseClass {
           break;
 
         case "state":
-          console.log(
-            `${getISTTime()}:[UltraVox] State update:`,
-            message.state
-          );
+          this.handleStateChange(String(message.state));
           break;
 
         case "pong":
           break;
 
         case "transcript":
-          if (message.text) {
-            this.session.sendTranscript(
-              message.text,
-              message.confidence || 0.9,
-              message.isFinal || false
-            );
-          }
-          break;
-
-        case "user_started_speaking":
-          if (this.session.getIsAudioPlaying()) {
-            this.session.sendBargeIn();
-          }
-          this.session.setIsAudioPlaying(false);
-          this.noInputTimer.haltTimer();
+          this.handleTranscript(message);
           break;
 
-        case "user_stopped_speaking":
-          this.noInputTimer.resumeTimer();
+        case "client_tool_invocation":
+          this.handleClientToolInvocation(message);
           break;
 
-        case "agent_started_speaking":
-          this.session.setIsAudioPlaying(true);
-          break;
-
-        case "agent_stopped_speaking":
-          this.session.flushBuffer();
-          this.session.setIsAudioPlaying(false);
+        // The caller interrupted the agent - drop unplayed agent audio
+        case "playback_clear_buffer":
+          this.markUserSpeechStart();
+          this.processCallerInput();
+          this.outboundResampler.reset();
+          this.processAgentInterrupted(this.session.interruptAgentAudio());
           break;
 
         default:
@@ -304,112 +425,243 @@ export class UltraVoxAgent extends VoiceAIAgentBaseClass {
     }
   }
 
-  //  Proper sample rate conversion
-  private resampleAudio(
-    input: Int16Array,
-    inputSampleRate: number,
-    outputSampleRate: number
-  ): Int16Array {
-    if (inputSampleRate === outputSampleRate) {
-      return input;
+  /*
+   * UltraVox reports turns through "state" (listening, thinking, speaking)
+   * rather than per-speaker start/stop events: the agent's turn is the time
+   * spent in "speaking", and the caller's turn ends when UltraVox stops
+   * listening to answer. The caller's turn has no start event, see
+   * markUserSpeechStart().
+   */
+  private handleStateChange(state: string): void {
+    const previous = this.callState;
+    this.callState = state;
+    if (state === previous) return;
+
+    console.log(`${getISTTime()}:[UltraVox] State: ${previous} -> ${state}`);
+    const position = this.session.getStreamPosition();
+    if (previous === "listening") {
+      this.speechEnd.user = position;
+      // UltraVox stops listening when the caller's turn ends, unless it is
+      // answering text we sent (no-input prompt, keypad digits)
+      if (!this.textSent) {
+        this.processCallerInput();
+      }
+      this.textSent = false;
     }
 
-    const ratio = outputSampleRate / inputSampleRate;
-    const outputLength = Math.floor(input.length * ratio);
-    const output = new Int16Array(outputLength);
-
-    for (let i = 0; i < outputLength; i++) {
-      const srcIndex = i / ratio;
-      const srcIndexFloor = Math.floor(srcIndex);
-      const srcIndexCeil = Math.min(srcIndexFloor + 1, input.length - 1);
-
-      // Linear interpolation
-      const fraction = srcIndex - srcIndexFloor;
-      const sample1 = input[srcIndexFloor] || 0;
-      const sample2 = input[srcIndexCeil] || 0;
-
-      output[i] = Math.round(sample1 + (sample2 - sample1) * fraction);
+    if (state === "speaking") {
+      this.speechStart.agent = position;
+      this.speechEnd.agent = undefined;
+      this.session.setIsAudioPlaying(true);
+    } else if (previous === "speaking") {
+      this.speechEnd.agent = position;
+      this.session.flushBuffer();
+      this.session.setIsAudioPlaying(false);
     }
-
-    return output;
   }
 
-  private convertPCMUToPCMSamples(pcmuData: Uint8Array): Int16Array {
-    const pcmSamples = new Int16Array(pcmuData.length);
-    for (let i = 0; i < pcmuData.length; i++) {
-      pcmSamples[i] = this.ulawToPcm(pcmuData[i]);
+  /*
+   * The caller's speech is first seen as a partial transcript, or as UltraVox
+   * clearing the agent's audio when the caller talks over it. Both lag the
+   * actual start a little (speech recognition latency).
+   */
+  private markUserSpeechStart(): void {
+    if (this.speechStart.user !== undefined) return;
+
+    // The caller is talking, so the silence so far is not theirs
+    this.noInputTimer.stopTimer();
+    this.speechStart.user = this.session.getStreamPosition();
+    if (this.callState === "listening") {
+      this.speechEnd.user = undefined; // Left over from an earlier turn
     }
-    return pcmSamples;
   }
 
-  private convertPCMSamplesToPCMU(pcmSamples: Int16Array): Uint8Array {
-    const pcmuData = new Uint8Array(pcmSamples.length);
-    for (let i = 0; i < pcmSamples.length; i++) {
-      pcmuData[i] = this.pcmToUlaw(pcmSamples[i]);
+  /*
+   * UltraVox streams each utterance (identified by its ordinal) as full text
+   * or as deltas; only completed utterances are passed on. Caller speech goes
+   * to Genesys on the external channel, agent speech on the internal channel,
+   * cut down to what the caller heard if they barged in.
+   */
+  private handleTranscript(message: any): void {
+    const ordinal: number = message.ordinal ?? -1;
+    let text = this.partialTranscripts.get(ordinal) || "";
+    if (typeof message.text === "string") {
+      text = message.text;
+    } else if (typeof message.delta === "string") {
+      text += message.delta;
     }
-    return pcmuData;
-  }
-
-  // Keep existing μ-law conversion methods...
-  private ulawToPcm(ulaw: number): number {
-    const BIAS = 0x84;
-    ulaw = ~ulaw;
-    const sign = ulaw & 0x80;
-    const exponent = (ulaw >> 4) & 0x07;
-    const mantissa = ulaw & 0x0f;
-    let sample = mantissa << (exponent + 3);
-    sample += BIAS;
-    if (exponent !== 0) {
-      sample += 1 << (exponent + 2);
+
+    // User text messages are our own prompts (no-input, DTMF), not the caller
+    const fromCaller = message.role === "user" && message.medium !== "text";
+    if (fromCaller) {
+      this.markUserSpeechStart();
     }
-    return sign !== 0 ? -sample : sample;
-  }
 
-  private pcmToUlaw(pcm: number): number {
-    const BIAS = 0x84;
-    const CLIP = 8159;
-    if (pcm < 0) {
-      pcm = BIAS - pcm;
-    } else {
-      pcm = BIAS + pcm;
+    if (!message.final) {
+      this.partialTranscripts.set(ordinal, text);
+      return;
     }
-    if (pcm > CLIP) pcm = CLIP;
-    let exponent = 7;
-    let expMask = 0x4000;
-    while ((pcm & expMask) === 0 && exponent > 0) {
-      exponent--;
-      expMask >>= 1;
+    this.partialTranscripts.delete(ordinal);
+
+    const now = this.session.getStreamPosition();
+    if (message.role === "user") {
+      if (!fromCaller) return;
+
+      const start = this.speechStart.user ?? now;
+      const end = Math.max(start, this.speechEnd.user ?? now);
+      this.speechStart.user = undefined;
+      this.speechEnd.user = undefined;
+
+      this.processCallerInput(text, message.confidence);
+      if (text.trim()) {
+        this.session.sendTranscript(
+          text.trim(),
+          message.confidence ?? DEFAULT_TRANSCRIPT_CONFIDENCE,
+          true,
+          "external",
+          start,
+          end - start
+        );
+      }
+    } else if (message.role === "agent") {
+      // The final transcript can arrive before or after the turn ends
+      const start = this.speechStart.agent ?? now;
+      const end = Math.max(start, this.speechEnd.agent ?? now);
+      this.speechStart.agent = undefined;
+
+      const heardText = this.completeAgentTurn(text.trim());
+      if (heardText) {
+        this.session.sendTranscript(
+          heardText,
+          1.0,
+          true,
+          "internal",
+          start,
+          end - start
+        );
+      }
     }
-    const mantissa = (pcm >> (exponent + 3)) & 0x0f;
-    const ulaw = ~((exponent << 4) | mantissa);
-    return ulaw & 0xff;
   }
 
   private getSystemPrompt(): string {
-    const customPrompt = this.session.getInputVariables()?.systemPrompt;
+    const agentConfig = this.session.getAgentConfig();
+    if (agentConfig.systemPrompt) {
+      return agentConfig.systemPrompt;
+    }
+
+    // Named prompts are loaded from src/prompts/<promptName>Prompt.md
+    if (agentConfig.promptName) {
+      return String(this.getSystemMessage());
+    }
+
     return (
-      customPrompt ||
       process.env.DEFAULT_SYSTEM_PROMPT ||
       "You are a helpful AI assistant. Respond naturally and be concise."
     );
   }
 
-  private handleNoInput(): void {
-    if (this.isAgentConnected()) {
-      // Send silence or prompt message to UltraVox
-      const message = {
-        type: "user_message",
-        text:
-          process.env.NO_INPUT_MESSAGE ||
-          "User has been silent. Please ask if they need help.",
-      };
-      this.ultraVoxWs?.send(JSON.stringify(message));
+  protected sendNoInputPrompt(instruction: string): void {
+    // Send prompt message to UltraVox
+    this.sendUserText(instruction);
+  }
+
+  private sendUserText(text: string): void {
+    if (!this.isAgentConnected()) return;
+
+    const message = { type: "user_text_message", text };
+    this.ultraVoxWs?.send(JSON.stringify(message));
+    this.textSent = true;
+  }
+
+  async processLanguageUpdate(language: LanguageCode): Promise<void> {
+    await super.processLanguageUpdate(language);
+
+    if (!this.callId || this.getVoice() === this.activeVoice) {
+      // Same voice - just steer the model to the new language
+      this.sendUserText(
+        `The caller's language has changed to ${language}. Continue the conversation in that language.`
+      );
+      return;
+    }
+
+    // A different voice needs a new UltraVox call; priorCallId keeps history
+    console.log(
+      `${getISTTime()}:[UltraVox] Switching voice for ${language}: ${
+        this.activeVoice
+      } -> ${this.getVoice()}`
+    );
+    const priorCallId = this.callId;
+    await this.close();
+    await this.initializeUltraVoxCall(priorCallId);
+  }
+
+  async processDTMF(digits: string, outcome: DTMFOutcome): Promise<void> {
+    await super.processDTMF(digits, outcome);
+
+    // Keypad input reaches the model as if the caller had said it
+    switch (outcome) {
+      case "complete":
+        this.sendUserText(
+          `The caller entered the following digits on their keypad: ${digits}`
+        );
+        break;
+      case "timeout":
+        this.sendUserText(
+          "The caller did not finish entering digits on their keypad."
+        );
+        break;
+      case "aborted":
+        this.sendUserText(
+          "The caller cancelled entering digits on their keypad."
+        );
+        break;
     }
   }
 
   async processPlaybackCompleted(): Promise<void> {
     console.log(`${getISTTime()}:[UltraVox] Playback completed`);
-    this.noInputTimer.startTimer();
+    this.startNoInputTimer();
+  }
+
+  async processPaused(): Promise<void> {
+    await super.processPaused();
+
+    // Drop anything still queued so stale caller audio is not played into the
+    // call after the pause; the streaming task keeps sending silence meanwhile.
+    this.isInputPaused = true;
+    this.audioBuffer.clear();
+    this.inboundResampler.reset();
+    console.log(`${getISTTime()}:[UltraVox] Inbound audio paused`);
+  }
+
+  async processResumed(
+    resumedSeconds: number,
+    discardedSeconds: number
+  ): Promise<void> {
+    this.isInputPaused = false;
+    this.audioBuffer.clear();
+    this.inboundResampler.reset();
+    console.log(
+      `${getISTTime()}:[UltraVox] Inbound audio resumed at ${resumedSeconds}s (${discardedSeconds}s discarded by Genesys)`
+    );
+
+    await super.processResumed(resumedSeconds, discardedSeconds);
+  }
+
+  async processDiscarded(
+    startSeconds: number,
+    discardedSeconds: number
+  ): Promise<void> {
+    // UltraVox already receives silence whenever no caller audio is queued, so
+    // a gap needs no filling - but the bot may have missed what was said
+    console.log(
+      `${getISTTime()}:[UltraVox] ${discardedSeconds}s of caller audio lost at ${startSeconds}s`
+    );
+    if (discardedSeconds >= LOST_AUDIO_NOTICE_SECONDS) {
+      this.sendUserText(
+        "Part of what the caller just said was lost due to a connection problem. If you did not understand them, ask them to repeat."
+      );
+    }
   }
 
   async sendKeepAlive(): Promise<void> {
@@ -419,17 +671,52 @@ export class UltraVoxAgent extends VoiceAIAgentBaseClass {
     }
   }
 
+  getContinuationState(): JsonObject {
+    return {
+      callId: this.callId,
+      joinUrl: this.joinUrl,
+      voice: this.activeVoice,
+    };
+  }
+
   protected isAgentConnected(): boolean {
     return (
       this.ultraVoxWs !== null && this.ultraVoxWs.readyState === WebSocket.OPEN
     );
   }
 
+  /*
+   * A normal close ends the UltraVox call, so the socket is dropped without a
+   * close handshake to keep the call joinable. ultraVoxWs is cleared first, so
+   * the close handler does not treat this as the agent hanging up.
+   */
+  async detach(): Promise<void> {
+    console.log(
+      `${getISTTime()}:[UltraVox] Detaching from call ${this.callId}`
+    );
+
+    this.stopContinuousAudioStreaming();
+
+    const ws = this.ultraVoxWs;
+    this.ultraVoxWs = null;
+    ws?.terminate();
+
+    this.callId = "";
+    this.joinUrl = "";
+    this.partialTranscripts.clear();
+  }
+
   async close(): Promise<void> {
     console.log(`${getISTTime()}:[UltraVox] Closing connection`);
 
     this.stopContinuousAudioStreaming();
 
+    if (this.audioBuffer.getDroppedSamples() > 0) {
+      console.warn(
+        `${getISTTime()}:[UltraVox] Inbound audio dropped on overflow: ${this.audioBuffer.getDroppedSamples()} samples`
+      );
+    }
+
     if (this.ultraVoxWs) {
       this.ultraVoxWs.close(1000, "Session ended");
       this.ultraVoxWs = null;
@@ -437,15 +724,16 @@ export class UltraVoxAgent extends VoiceAIAgentBaseClass {
 
     this.callId = "";
     this.joinUrl = "";
+    this.partialTranscripts.clear();
   }
 
-  private async initializeUltraVoxCall(): Promise<void> {
+  private async initializeUltraVoxCall(priorCallId?: string): Promise<void> {
     if (this.isInitializing) return;
     this.isInitializing = true;
 
     try {
       console.log(`${getISTTime()}:[UltraVox] Creating UltraVox call...`);
-      const callResponse = await this.createCall();
+      const callResponse = await this.createCall(priorCallId);
       this.callId = callResponse.callId;
       this.joinUrl = callResponse.joinUrl;
 
@@ -464,4 +752,61 @@ export class UltraVoxAgent extends VoiceAIAgentBaseClass {
       this.isInitializing = false;
     }
   }
+
+  // Reattach to the call of a continued session, or carry its history over
+  private async rejoinUltraVoxCall(
+    callId: string,
+    joinUrl: string,
+    voice: string
+  ): Promise<void> {
+    if (this.isInitializing) return;
+    this.isInitializing = true;
+
+    try {
+      console.log(`${getISTTime()}:[UltraVox] Rejoining call - ID: ${callId}`);
+      this.callId = callId;
+      this.joinUrl = joinUrl;
+      this.activeVoice = voice;
+      await this.connectWebSocket(joinUrl);
+      this.isInitializing = false;
+    } catch (error) {
+      console.warn(
+        `${getISTTime()}:[UltraVox] Rejoin failed - starting new call from prior call ${callId}:`,
+        error
+      );
+      this.stopContinuousAudioStreaming();
+      this.ultraVoxWs = null;
+      this.isInitializing = false;
+      await this.initializeUltraVoxCall(callId);
+    }
+  }
 }
+
+VoiceAIAgentRegistry.register({
+  name: "ultravox",
+  description: "UltraVox realtime voice AI over server WebSocket",
+  configSchema: {
+    apiKey: {
+      type: "string",
+      description: "UltraVox API key",
+      required: true,
+      env: "ULTRAVOX_API_KEY",
+    },
+    callApi: {
+      type: "string",
+      description: "UltraVox create call endpoint",
+      env: "ULTRAVOX_CALL_API",
+    },
+    model: {
+      type: "string",
+      description: "UltraVox model",
+      env: "ULTRAVOX_MODEL",
+    },
+    voice: {
+      type: "string",
+      description: "Default UltraVox voice",
+      env: "ULTRAVOX_VOICE",
+    },
+  },
+  create: (session: Session) => new UltraVoxAgent(session),
+});
@@ -1,7 +1,24 @@
 import { error } from "console";
 import { Session } from "../websocket/session";
 import { Timer } from "./timer";
-import { getISTTime } from "../common/environment-variables";
+import {
+  ClientToolDefinition,
+  ClientToolDispatcher,
+} from "./client-tool-dispatcher";
+import { SlotDefinition, registerBuiltInTools } from "./built-in-tools";
+import { DTMFOutcome } from "./dtmf-service";
+import { JsonObject, LanguageCode } from "../protocol/core";
+import { BotTurnDisposition } from "../protocol/voice-bots";
+import { getISTTime, getNoInputPolicy } from "../common/environment-variables";
+
+export type NoInputPolicy = {
+  maxReprompts: number; // Timeouts answered with a reprompt before giving up
+  reprompts: string[]; // Instructions for the agent, one per reprompt
+  finalMessage: string; // Instruction for the agent's goodbye
+};
+
+// Longer gaps are not worth replaying as silence
+const MAX_INSERTED_SILENCE_SECONDS = 2;
 
 /**
  * Base class for all voice AI agents, providing common session and timeout handling.
@@ -9,6 +26,16 @@ import { getISTTime } from "../common/environment-variables";
 export abstract class VoiceAIAgentBaseClass {
   protected session: Session;
   protected noInputTimer: Timer;
+  protected toolDispatcher: ClientToolDispatcher;
+  protected noInputPolicy: NoInputPolicy = getNoInputPolicy();
+  private noInputCount = 0;
+
+  // What happened since the agent's last turn, for its bot_turn_response
+  private noInputPending = false;
+  private callerSpoke = false;
+  private callerText = "";
+  private callerConfidence: number | undefined;
+  private heardFraction = 1;
 
   /**
    * @param session         WebSocket session for client communication
@@ -21,6 +48,15 @@ export abstract class VoiceAIAgentBaseClass {
   ) {
     this.session = session;
     this.noInputTimer = new Timer(noInputCallback, noInputTimeout);
+    this.toolDispatcher = new ClientToolDispatcher(
+      session,
+      this.getSystemTools()
+    );
+    registerBuiltInTools(
+      this.toolDispatcher,
+      session,
+      this.getSlotDefinitions()
+    );
   }
 
   /**
@@ -40,10 +76,232 @@ export abstract class VoiceAIAgentBaseClass {
   async processPlaybackCompleted(): Promise<void> {
     if (this.isAgentConnected()) {
       console.log(`${getISTTime()}:PlaybackCompleted|Starting no input timer`);
-      this.noInputTimer.startTimer();
+      this.startNoInputTimer();
+    }
+  }
+
+  /**
+   * Handle the audio stream being paused by Genesys
+   * Default implementation: halt the no-input timer so silence is not counted
+   */
+  async processPaused(): Promise<void> {
+    console.log(`${getISTTime()}:Paused|Halting no input timer`);
+    this.noInputTimer.haltTimer();
+  }
+
+  /**
+   * Handle the audio stream being resumed by Genesys
+   * Default implementation: re-arm the no-input timer
+   *
+   * @param resumedSeconds   Stream position at which audio resumes: the
+   *                         "resumed" start (where the pause began) plus the
+   *                         discarded audio
+   * @param discardedSeconds Amount of audio Genesys discarded while paused
+   */
+  async processResumed(
+    resumedSeconds: number,
+    discardedSeconds: number
+  ): Promise<void> {
+    console.log(
+      `${getISTTime()}:Resumed|At: ${resumedSeconds}s, discarded: ${discardedSeconds}s`
+    );
+    this.noInputTimer.resumeTimer();
+    if (this.isAgentConnected() && !this.session.getIsAudioPlaying()) {
+      this.startNoInputTimer();
+    }
+  }
+
+  /**
+   * Start the no-input timer unless the stream is paused: the caller cannot be
+   * heard then, so the silence is not theirs. Use this rather than
+   * noInputTimer.startTimer(), as resumeTimer() also clears a halt made by
+   * processPaused().
+   */
+  protected startNoInputTimer(): void {
+    if (this.session.getIsPaused()) {
+      console.log(`${getISTTime()}:NoInput|Stream paused - timer not started`);
+      return;
+    }
+    this.noInputTimer.startTimer();
+  }
+
+  /**
+   * Handle a gap in the caller's audio reported by Genesys
+   * Default implementation: feed the agent the equivalent silence (up to
+   * MAX_INSERTED_SILENCE_SECONDS) so its view of time stays in step
+   *
+   * @param startSeconds     Stream position at which audio was discarded
+   * @param discardedSeconds Amount of audio Genesys discarded
+   */
+  async processDiscarded(
+    startSeconds: number,
+    discardedSeconds: number
+  ): Promise<void> {
+    const codec = this.session.getMediaCodec();
+    const sampleRate = this.session.getSelectedMedia()?.rate || 8000;
+    const samples = Math.round(
+      Math.min(discardedSeconds, MAX_INSERTED_SILENCE_SECONDS) * sampleRate
+    );
+
+    console.log(
+      `${getISTTime()}:Discarded|Start: ${startSeconds}s, discarded: ${discardedSeconds}s - inserting ${samples} samples of silence`
+    );
+    if (samples > 0) {
+      await this.processAudio(
+        new Uint8Array(samples * codec.bytesPerSample).fill(codec.silenceByte)
+      );
+    }
+  }
+
+  /**
+   * Handle a mid-call language change requested by Genesys
+   * Default implementation: log only, providers override to switch voice/prompt
+   */
+  async processLanguageUpdate(language: LanguageCode): Promise<void> {
+    console.log(`${getISTTime()}:LanguageUpdate|Language: ${language}`);
+  }
+
+  /**
+   * Handle the end of a DTMF capture
+   * Default implementation: log only, providers override to pass the digits on
+   *
+   * @param digits  Digits entered by the caller (unmasked)
+   * @param outcome Whether the capture completed, timed out or was aborted
+   */
+  async processDTMF(digits: string, outcome: DTMFOutcome): Promise<void> {
+    this.processCallerInput(outcome === "complete" ? digits : undefined);
+    console.log(
+      `${getISTTime()}:DTMF|Capture ${outcome} with ${digits.length} digits`
+    );
+  }
+
+  /**
+   * State needed to reattach to this conversation from a continued session.
+   * Default implementation: nothing to carry over
+   */
+  getContinuationState(): JsonObject {
+    return {};
+  }
+
+  /**
+   * Drop the connection to the agent without ending its conversation, so a
+   * continued session can rejoin it with getContinuationState().
+   * Default implementation: nothing to rejoin, so just close
+   */
+  async detach(): Promise<void> {
+    await this.close();
+  }
+
+  /**
+   * Apply the no-input policy when the no-input timer elapses: reprompt with
+   * the next wording, and once the reprompts are used up say goodbye and end
+   * the call with disposition "no_input".
+   */
+  protected processNoInput(): void {
+    if (this.noInputCount > this.noInputPolicy.maxReprompts) {
+      return; // Already ending the call
+    }
+    if (this.session.getIsPaused()) {
+      console.log(`${getISTTime()}:NoInput|Stream paused - ignoring timeout`);
+      return;
     }
+
+    this.noInputCount++;
+    this.noInputPending = true;
+
+    if (this.noInputCount <= this.noInputPolicy.maxReprompts) {
+      const { reprompts } = this.noInputPolicy;
+      const reprompt =
+        reprompts[Math.min(this.noInputCount, reprompts.length) - 1];
+      console.log(
+        `${getISTTime()}:NoInput|Reprompt ${this.noInputCount} of ${
+          this.noInputPolicy.maxReprompts
+        }`
+      );
+      this.sendNoInputPrompt(reprompt);
+      return;
+    }
+
+    console.log(`${getISTTime()}:NoInput|Reprompts exhausted - ending call`);
+    this.noInputTimer.haltTimer();
+    this.sendNoInputPrompt(this.noInputPolicy.finalMessage);
+    this.session.completeConversation(
+      { disposition: "no_input" },
+      "No input from caller"
+    );
+  }
+
+  /**
+   * The caller said or entered something - the next silence starts over
+   *
+   * @param text       Recognised input, if any (none yet when speech starts)
+   * @param confidence Recognition confidence of the text, if known
+   */
+  protected processCallerInput(text?: string, confidence?: number): void {
+    this.noInputCount = 0;
+    this.noInputPending = false;
+    this.callerSpoke = true;
+
+    if (text?.trim()) {
+      this.callerText = `${this.callerText} ${text.trim()}`.trim();
+      this.callerConfidence = confidence;
+    }
+  }
+
+  /**
+   * The agent finished speaking: report the turn to Genesys as
+   * bot_turn_response. The disposition describes the caller input the agent
+   * responded to - "no_input" after a no-input timeout, "no_match" when the
+   * caller spoke but nothing was recognised, "match" otherwise. The opening
+   * turn (the greeting, before any caller input) is reported as "match"
+   * without a confidence, as there is no recognised input behind it.
+   *
+   * @param text What the agent said
+   * @returns What the caller heard of it
+   */
+  protected completeAgentTurn(text: string): string {
+    if (this.heardFraction < 1) {
+      text = truncateToHeard(text, this.heardFraction);
+      this.heardFraction = 1;
+    }
+
+    let disposition: BotTurnDisposition = "match";
+    if (this.noInputPending) {
+      disposition = "no_input";
+    } else if (this.callerSpoke && !this.callerText) {
+      disposition = "no_match";
+    }
+
+    this.session.sendTurnResponse(
+      disposition,
+      text,
+      disposition === "match" ? this.callerConfidence : undefined
+    );
+
+    this.noInputPending = false;
+    this.callerSpoke = false;
+    this.callerText = "";
+    this.callerConfidence = undefined;
+    return text;
+  }
+
+  /**
+   * The caller barged in on the agent's current turn; its text is cut down to
+   * what the caller heard when the turn completes
+   *
+   * @param heardFraction Share of the turn's audio the caller heard, 0 to 1
+   */
+  protected processAgentInterrupted(heardFraction: number): void {
+    this.heardFraction = Math.max(0, Math.min(1, heardFraction));
   }
 
+  /**
+   * Make the agent speak after a no-input timeout
+   *
+   * @param instruction What the agent should do, e.g. ask if the caller is still there
+   */
+  protected abstract sendNoInputPrompt(instruction: string): void;
+
   /**
    * Close any open resources and cleanup
    */
@@ -56,7 +314,7 @@ export abstract class VoiceAIAgentBaseClass {
 
   protected getSystemMessage(): String {
     const promptFileName: String =
-      this.session.getInputVariables().promptName + "Prompt.md";
+      this.session.getAgentConfig().promptName + "Prompt.md";
 
     const fileName = "./src/prompts/" + promptFileName;
     try {
@@ -93,6 +351,10 @@ export abstract class VoiceAIAgentBaseClass {
     const fs = require("fs");
     try {
       let fileData = fs.readFileSync(filePath, "utf8");
+      // Prompt files are plain text - only tools files are JSON
+      if (!filePath.endsWith(".json")) {
+        return fileData;
+      }
       try {
         return JSON.parse(fileData);
       } catch (jsonErr) {
@@ -129,9 +391,13 @@ export abstract class VoiceAIAgentBaseClass {
    *
    * @returns System Tools for the Agent
    */
-  protected getSystemTools(): String[] {
-    const toolFileName =
-      this.session.getInputVariables().promptName + "Tools.json";
+  protected getSystemTools(): ClientToolDefinition[] {
+    const promptName = this.session.getAgentConfig().promptName;
+    if (!promptName) {
+      return [];
+    }
+
+    const toolFileName = promptName + "Tools.json";
     console.log(
       getISTTime() +
         ":" +
@@ -139,9 +405,9 @@ export abstract class VoiceAIAgentBaseClass {
     );
     const filePath = "./src/prompts/" + toolFileName;
     try {
-      const tools = VoiceAIAgentBaseClass.readFile(filePath);
+      const tools: unknown = VoiceAIAgentBaseClass.readFile(filePath);
       if (Array.isArray(tools)) {
-        return tools;
+        return tools as ClientToolDefinition[];
       } else {
         console.error(
           getISTTime() +
@@ -158,6 +424,55 @@ export abstract class VoiceAIAgentBaseClass {
     }
     return [];
   }
+
+  /**
+   *
+   * @returns Slots the Agent has to collect, from <promptName>Slots.json
+   */
+  protected getSlotDefinitions(): SlotDefinition[] {
+    const promptName = this.session.getAgentConfig().promptName;
+    if (!promptName) {
+      return [];
+    }
+
+    const filePath = "./src/prompts/" + promptName + "Slots.json";
+    const fs = require("fs");
+    if (!fs.existsSync(filePath)) {
+      return [];
+    }
+
+    try {
+      const slots: unknown = VoiceAIAgentBaseClass.readFile(filePath);
+      if (Array.isArray(slots)) {
+        return (slots as SlotDefinition[]).filter((slot) => {
+          if (slot?.name && slot?.description) return true;
+          console.error(
+            getISTTime() +
+              ":" +
+              `[OpenAI] Ignoring invalid slot definition: ${JSON.stringify(
+                slot
+              )}`
+          );
+          return false;
+        });
+      }
+      console.error(
+        getISTTime() + ":" + `[OpenAI] Invalid slots format in file ${filePath}`
+      );
+    } catch (error) {
+      console.error(
+        getISTTime() + ":" + `[OpenAI] Error loading slots:`,
+        error
+      );
+    }
+    return [];
+  }
+}
+
+// Assumes words are spread evenly over the utterance's audio
+function truncateToHeard(text: string, heardFraction: number): string {
+  const words = text.split(/\s+/).filter((word) => word.length > 0);
+  return words.slice(0, Math.round(words.length * heardFraction)).join(" ");
 }
 
 /* 
@@ -1,8 +1,39 @@
 import { VoiceAIAgentBaseClass } from "./voice-aiagent-base";
-import { UltraVoxAgent } from "./ultravox-agent";
+import {
+  VoiceAIAgentProviderStatus,
+  VoiceAIAgentRegistry,
+} from "./voice-aiagent-registry";
 import { Session } from "../websocket/session";
 import { getISTTime } from "../common/environment-variables";
 
+// Built-in providers register themselves on import
+import "./ultravox-agent";
+
+loadProviderModules(process.env.BOT_PROVIDER_MODULES);
+
+// Comma separated module paths of additional providers, e.g. "./dist/my-bot"
+function loadProviderModules(modules: string | undefined) {
+  if (!modules) return;
+
+  modules
+    .split(",")
+    .map((modulePath) => modulePath.trim())
+    .filter((modulePath) => modulePath.length > 0)
+    .forEach((modulePath) => {
+      try {
+        require(require.resolve(modulePath, { paths: [process.cwd()] }));
+        console.log(
+          `${getISTTime()}:[VoiceAIAgentFactory] Loaded provider module: ${modulePath}`
+        );
+      } catch (error) {
+        console.error(
+          `${getISTTime()}:[VoiceAIAgentFactory] Failed to load provider module ${modulePath}:`,
+          error
+        );
+      }
+    });
+}
+
 export class VoiceAIAgentFactory {
   static create(agentName: string, session: Session): VoiceAIAgentBaseClass {
     const name = (agentName || "UltraVox").toLowerCase();
@@ -11,25 +42,30 @@ export class VoiceAIAgentFactory {
       `${getISTTime()}:[VoiceAIAgentFactory] Creating agent: ${name}`
     );
 
-    switch (name) {
-      case "ultravox":
-        return new UltraVoxAgent(session);
-
-      default:
-        console.error(
-          `${getISTTime()}:[VoiceAIAgentFactory] Unknown agent: ${agentName}`
-        );
-        throw new Error(
-          `[VoiceAIAgentFactory] Unsupported agent: ${agentName}. Only 'ultravox' is supported.`
-        );
+    const provider = VoiceAIAgentRegistry.get(name);
+    if (!provider) {
+      console.error(
+        `${getISTTime()}:[VoiceAIAgentFactory] Unknown agent: ${agentName}`
+      );
+      throw new Error(
+        `[VoiceAIAgentFactory] Unsupported agent: ${agentName}. Supported: ${this.getSupportedProviders().join(
+          ", "
+        )}.`
+      );
     }
+
+    return provider.create(session);
   }
 
   static getSupportedProviders(): string[] {
-    return ["ultravox"];
+    return VoiceAIAgentRegistry.getNames();
   }
 
   static isProviderSupported(providerName: string): boolean {
     return this.getSupportedProviders().includes(providerName.toLowerCase());
   }
+
+  static getProviderStatus(): VoiceAIAgentProviderStatus[] {
+    return VoiceAIAgentRegistry.getAllStatus();
+  }
 }
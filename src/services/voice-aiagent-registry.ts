@@ -0,0 +1,92 @@
+import { Session } from "../websocket/session";
+import { VoiceAIAgentBaseClass } from "./voice-aiagent-base";
+import { getISTTime } from "../common/environment-variables";
+
+export type ProviderConfigFieldType = "string" | "number" | "boolean";
+
+export type ProviderConfigField = {
+  type: ProviderConfigFieldType;
+  description: string;
+  required?: boolean; // Provider is not ready until this has a value
+  env?: string; // Environment variable that supplies the default value
+};
+
+export type ProviderConfigSchema = {
+  [key: string]: ProviderConfigField;
+};
+
+export type VoiceAIAgentProvider = {
+  name: string;
+  description: string;
+  configSchema: ProviderConfigSchema;
+  create: (session: Session) => VoiceAIAgentBaseClass;
+};
+
+export type VoiceAIAgentProviderStatus = {
+  name: string;
+  description: string;
+  ready: boolean;
+  missingConfig: string[];
+};
+
+/*
+ * This class holds the voice AI agent providers available to sessions.
+ *
+ * Providers register themselves when their module is loaded, e.g. at the bottom
+ * of ultravox-agent.ts:
+ *
+ *   VoiceAIAgentRegistry.register({ name: "ultravox", ... });
+ *
+ * Built-in providers are loaded by VoiceAIAgentFactory; additional (in-house)
+ * providers can be loaded without code changes via BOT_PROVIDER_MODULES.
+ */
+export class VoiceAIAgentRegistry {
+  static providers = new Map<string, VoiceAIAgentProvider>();
+
+  static register(provider: VoiceAIAgentProvider): void {
+    const name = provider.name.toLowerCase();
+    if (VoiceAIAgentRegistry.providers.has(name)) {
+      console.warn(
+        `${getISTTime()}:[VoiceAIAgentRegistry] Replacing provider: ${name}`
+      );
+    }
+
+    VoiceAIAgentRegistry.providers.set(name, { ...provider, name });
+    console.log(
+      `${getISTTime()}:[VoiceAIAgentRegistry] Registered provider: ${name}`
+    );
+  }
+
+  static get(name: string): VoiceAIAgentProvider | undefined {
+    return VoiceAIAgentRegistry.providers.get(name.toLowerCase());
+  }
+
+  static getNames(): string[] {
+    return Array.from(VoiceAIAgentRegistry.providers.keys());
+  }
+
+  static getStatus(name: string): VoiceAIAgentProviderStatus | undefined {
+    const provider = VoiceAIAgentRegistry.get(name);
+    if (!provider) {
+      return undefined;
+    }
+
+    // Only environment-backed settings can be checked ahead of a call
+    const missingConfig = Object.values(provider.configSchema)
+      .filter((field) => field.required && field.env && !process.env[field.env])
+      .map((field) => field.env as string);
+
+    return {
+      name: provider.name,
+      description: provider.description,
+      ready: missingConfig.length === 0,
+      missingConfig,
+    };
+  }
+
+  static getAllStatus(): VoiceAIAgentProviderStatus[] {
+    return VoiceAIAgentRegistry.getNames().map(
+      (name) => VoiceAIAgentRegistry.getStatus(name)!
+    );
+  }
+}
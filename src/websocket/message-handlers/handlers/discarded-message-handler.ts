@@ -0,0 +1,27 @@
+import { ClientMessage, DiscardedMessage } from "../../../protocol/message";
+import { Session } from "../../session";
+import { MessageHandler } from "../message-handler";
+import { getISTTime } from "../../../common/environment-variables";
+
+export class DiscardedMessageHandler implements MessageHandler {
+  handleMessage(message: ClientMessage, session: Session) {
+    const parsedMessage: DiscardedMessage = message as DiscardedMessage;
+
+    if (!parsedMessage) {
+      const message = "Invalid request parameters.";
+      console.log(`${getISTTime()}:[DiscardedHandler] ${message}`);
+      session.sendDisconnect("error", message, {});
+      return;
+    }
+
+    console.log(
+      `${getISTTime()}:[DiscardedHandler] Received Discarded Message. Start: ${
+        parsedMessage.parameters.start
+      }, Discarded: ${parsedMessage.parameters.discarded}`
+    );
+    session.processDiscarded(
+      parsedMessage.parameters.start,
+      parsedMessage.parameters.discarded
+    );
+  }
+}
@@ -15,7 +15,9 @@ export class DTMFMessageHandler implements MessageHandler {
     }
 
     console.log(
-      `Received a DTMF Message. Digit: ${parsedMessage.parameters.digit}`
+      `Received a DTMF Message. Digit: ${session.maskDTMF(
+        parsedMessage.parameters.digit
+      )}`
     );
     session.processDTMF(parsedMessage.parameters.digit);
   }
@@ -1,4 +1,4 @@
-import { MediaParameter } from "../../../protocol/core";
+import { MediaFormat, MediaParameter } from "../../../protocol/core";
 import {
   ClientMessage,
   OpenMessage,
@@ -8,6 +8,9 @@ import { Session } from "../../session";
 import { MessageHandler } from "../message-handler";
 import { getISTTime } from "../../../common/environment-variables";
 
+// In order of preference - L16 avoids the μ-law conversion entirely
+const SUPPORTED_MEDIA_FORMATS: MediaFormat[] = ["L16", "PCMU"];
+
 export class OpenMessageHandler implements MessageHandler {
   handleMessage(message: ClientMessage, session: Session) {
     const parsedMessage: OpenMessage = message as OpenMessage;
@@ -26,14 +29,16 @@ export class OpenMessageHandler implements MessageHandler {
       }`
     );
 
-    let selectedMedia: MediaParameter | null = null;
+    let selectedMedia: MediaParameter | undefined;
 
-    // Find supported media format (PCMU 8kHz)
-    parsedMessage.parameters.media.forEach((element: MediaParameter) => {
-      if (element.format === "PCMU" && element.rate === 8000) {
-        selectedMedia = element;
-      }
-    });
+    // Find supported media format (8kHz), preferring linear PCM over PCMU
+    for (const format of SUPPORTED_MEDIA_FORMATS) {
+      selectedMedia = parsedMessage.parameters.media.find(
+        (element: MediaParameter) =>
+          element.format === format && element.rate === 8000
+      );
+      if (selectedMedia) break;
+    }
 
     if (!selectedMedia) {
       const message = "No supported media type was found.";
@@ -59,6 +64,19 @@ export class OpenMessageHandler implements MessageHandler {
       session.setInputVariables(parsedMessage.parameters.inputVariables);
     }
 
+    if (parsedMessage.parameters.customConfig) {
+      session.setCustomConfig(parsedMessage.parameters.customConfig);
+    }
+
+    if (parsedMessage.parameters.language) {
+      session.setLanguage(parsedMessage.parameters.language);
+    }
+
+    // Pick up a session that was moved here via "reconnect"
+    if (parsedMessage.parameters.continuedSessions?.length) {
+      session.continueSessions(parsedMessage.parameters.continuedSessions);
+    }
+
     // STEP 1: Send "opened" response back to Genesys FIRST
     if (selectedMedia) {
       const response: ServerMessage = session.createMessage("opened", {
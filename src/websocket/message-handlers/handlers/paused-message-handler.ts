@@ -0,0 +1,11 @@
+import { ClientMessage } from "../../../protocol/message";
+import { Session } from "../../session";
+import { MessageHandler } from "../message-handler";
+import { getISTTime } from "../../../common/environment-variables";
+
+export class PausedMessageHandler implements MessageHandler {
+  handleMessage(message: ClientMessage, session: Session) {
+    console.log(`${getISTTime()}:[PausedHandler] Received Paused Message`);
+    session.processPaused();
+  }
+}
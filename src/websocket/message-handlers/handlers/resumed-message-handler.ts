@@ -0,0 +1,27 @@
+import { ClientMessage, ResumedMessage } from "../../../protocol/message";
+import { Session } from "../../session";
+import { MessageHandler } from "../message-handler";
+import { getISTTime } from "../../../common/environment-variables";
+
+export class ResumedMessageHandler implements MessageHandler {
+  handleMessage(message: ClientMessage, session: Session) {
+    const parsedMessage: ResumedMessage = message as ResumedMessage;
+
+    if (!parsedMessage) {
+      const message = "Invalid request parameters.";
+      console.log(`${getISTTime()}:[ResumedHandler] ${message}`);
+      session.sendDisconnect("error", message, {});
+      return;
+    }
+
+    console.log(
+      `${getISTTime()}:[ResumedHandler] Received Resumed Message. Start: ${
+        parsedMessage.parameters.start
+      }, Discarded: ${parsedMessage.parameters.discarded}`
+    );
+    session.processResumed(
+      parsedMessage.parameters.start,
+      parsedMessage.parameters.discarded
+    );
+  }
+}
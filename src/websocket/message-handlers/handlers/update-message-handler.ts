@@ -0,0 +1,30 @@
+import { ClientMessage, UpdateMessage } from "../../../protocol/message";
+import { Session } from "../../session";
+import { MessageHandler } from "../message-handler";
+import { getISTTime } from "../../../common/environment-variables";
+
+export class UpdateMessageHandler implements MessageHandler {
+  handleMessage(message: ClientMessage, session: Session) {
+    const parsedMessage: UpdateMessage = message as UpdateMessage;
+
+    if (!parsedMessage) {
+      const message = "Invalid request parameters.";
+      console.log(`${getISTTime()}:[UpdateHandler] ${message}`);
+      session.sendDisconnect("error", message, {});
+      return;
+    }
+
+    console.log(
+      `${getISTTime()}:[UpdateHandler] Received Update Message: ${JSON.stringify(
+        parsedMessage.parameters
+      )}`
+    );
+
+    // Acknowledge first, then apply - the agent may take a while to switch
+    session.send(session.createMessage("updated", {}));
+
+    if (parsedMessage.parameters.language) {
+      session.updateLanguage(parsedMessage.parameters.language);
+    }
+  }
+}
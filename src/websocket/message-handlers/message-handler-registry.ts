@@ -6,6 +6,10 @@ import { PlaybackStartedMessageHandler } from './handlers/playback-started-messa
 import { PlaybackCompletedMessageHandler } from './handlers/playback-completed-message-handler';
 import { DTMFMessageHandler } from './handlers/dtmf-message-handler';
 import { ErrorMessageHandler } from './handlers/error-message-handler';
+import { PausedMessageHandler } from './handlers/paused-message-handler';
+import { ResumedMessageHandler } from './handlers/resumed-message-handler';
+import { UpdateMessageHandler } from './handlers/update-message-handler';
+import { DiscardedMessageHandler } from './handlers/discarded-message-handler';
 
 export class MessageHandlerRegistry {
     private messageHandlers: Map<string, MessageHandler> = new Map();
@@ -18,6 +22,10 @@ export class MessageHandlerRegistry {
         this.messageHandlers.set('playback_completed', new PlaybackCompletedMessageHandler());
         this.messageHandlers.set('dtmf', new DTMFMessageHandler());
         this.messageHandlers.set('error', new ErrorMessageHandler());
+        this.messageHandlers.set('paused', new PausedMessageHandler());
+        this.messageHandlers.set('resumed', new ResumedMessageHandler());
+        this.messageHandlers.set('update', new UpdateMessageHandler());
+        this.messageHandlers.set('discarded', new DiscardedMessageHandler());
     }
 
     getHandler(type: string): MessageHandler | undefined {
@@ -2,8 +2,13 @@ import WS, { WebSocket } from "ws";
 import express, { Express, Request } from "express";
 import { verifyRequestSignature } from "../auth/authenticator";
 import { Session } from "./session";
-import { getPort, getISTTime } from "../common/environment-variables";
+import {
+  getPort,
+  getISTTime,
+  getReconnectGracePeriod,
+} from "../common/environment-variables";
 import { SecretService } from "../services/secret-service";
+import { VoiceAIAgentFactory } from "../services/voice-aiagent-factory";
 
 console.log("=== SERVER STARTUP ===");
 console.log("Time:", getISTTime());
@@ -15,6 +20,7 @@ export class Server {
   private httpServer: any;
   private wsServer: any;
   private sessionMap: Map<WebSocket, Session> = new Map();
+  private draining = false;
   private secretService = new SecretService();
   private readonly enableKeyVerification =
     process.env.ENABLE_KEY_VERIFICATION !== "false";
@@ -40,14 +46,16 @@ export class Server {
     // Health check endpoint (no auth required)
     this.app.get("/health", (_req, res) => {
       console.log(`${getISTTime()}:[Server] Health check requested`);
-      res.status(200).json({
-        status: "ok",
+      // Draining: tell the load balancer to route new calls elsewhere
+      res.status(this.draining ? 503 : 200).json({
+        status: this.draining ? "draining" : "ok",
         timestamp: getISTTime(),
         uptime: process.uptime(),
         activeConnections: this.sessionMap.size,
         endpoint: `ws://localhost:${getPort()}/`,
         authRequired: "X-API-KEY header or apikey query parameter",
         signatureVerification: this.enableSignatureVerification,
+        providers: VoiceAIAgentFactory.getProviderStatus(),
       });
     });
 
@@ -106,6 +114,16 @@ export class Server {
         console.log("Local Port:", socket.localPort);
         console.log("All Headers:", JSON.stringify(request.headers, null, 2));
 
+        // Continued sessions must open on another instance, see shutdown()
+        if (this.draining) {
+          console.log(
+            `${getISTTime()}:[Server] Rejecting WebSocket upgrade - shutting down`
+          );
+          socket.write("HTTP/1.1 503 Service Unavailable\r\n\r\n");
+          socket.destroy();
+          return;
+        }
+
         // Check X-API-KEY header OR query parameter (for browser testing)
         let apiKey = request.headers["x-api-key"] as string;
 
@@ -226,6 +244,10 @@ export class Server {
       this.createConnection(ws, request);
     });
 
+    // Planned restart: move live sessions to another connection first
+    process.once("SIGTERM", () => this.shutdown("Server restarting"));
+    process.once("SIGINT", () => this.shutdown("Server stopping"));
+
     console.log(`${getISTTime()}:[Server] Server started successfully`);
     console.log(
       `${getISTTime()}:[Server] WebSocket endpoint: ws://localhost:${getPort()}/`
@@ -242,6 +264,54 @@ export class Server {
     );
   }
 
+  /*
+   * Planned restart. New connections are refused first: a continued session
+   * opened on this process would take its snapshot from the store and be lost
+   * when the process exits. Live sessions are then asked to reconnect, and the
+   * process exits once Genesys has closed them all, or after
+   * RECONNECT_GRACE_PERIOD at the latest.
+   */
+  shutdown(info: string) {
+    if (this.draining) return;
+    this.draining = true;
+
+    console.log(
+      `${getISTTime()}:[Server] Shutting down - asking ${
+        this.sessionMap.size
+      } session(s) to reconnect`
+    );
+    this.httpServer?.close();
+
+    this.sessionMap.forEach((session) => {
+      try {
+        session.sendReconnect(info);
+      } catch (error) {
+        console.error(
+          `${getISTTime()}:[Server] Error requesting reconnect:`,
+          error
+        );
+      }
+    });
+
+    if (this.sessionMap.size === 0) {
+      this.exit();
+      return;
+    }
+    setTimeout(() => {
+      console.log(
+        `${getISTTime()}:[Server] ${
+          this.sessionMap.size
+        } session(s) still open after grace period`
+      );
+      this.exit();
+    }, getReconnectGracePeriod());
+  }
+
+  private exit() {
+    console.log(`${getISTTime()}:[Server] Exiting`);
+    process.exit(0);
+  }
+
   private handleWebSocketUpgrade(request: Request, socket: any, head: any) {
     this.wsServer.handleUpgrade(request, socket, head, (ws: WebSocket) => {
       console.log(
@@ -315,5 +385,10 @@ export class Server {
       `${getISTTime()}:[Server] Deleted session: ${session.getClientSessionId()}`
     );
     this.sessionMap.delete(ws);
+
+    if (this.draining && this.sessionMap.size === 0) {
+      console.log(`${getISTTime()}:[Server] All sessions closed`);
+      this.exit();
+    }
   }
 }
@@ -0,0 +1,145 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import http from "http";
+import { AddressInfo } from "net";
+import { WebSocket } from "ws";
+import { Session } from "./session";
+import { VoiceAIAgentBaseClass } from "../services/voice-aiagent-base";
+import { VoiceAIAgentRegistry } from "../services/voice-aiagent-registry";
+import { ClientToolDispatcher } from "../services/client-tool-dispatcher";
+
+const NO_INPUT_TIMEOUT_MS = 30;
+
+class TestAgent extends VoiceAIAgentBaseClass {
+  audio: Uint8Array[] = [];
+  noInputTimeouts = 0;
+
+  constructor(session: Session) {
+    super(session, () => this.noInputTimeouts++, NO_INPUT_TIMEOUT_MS);
+  }
+
+  async processAudio(audioPayload: Uint8Array): Promise<void> {
+    this.audio.push(audioPayload);
+  }
+
+  async sendKeepAlive(): Promise<void> {}
+
+  async close(): Promise<void> {
+    this.noInputTimer.stopTimer();
+  }
+
+  protected sendNoInputPrompt(): void {}
+
+  protected isAgentConnected(): boolean {
+    return true;
+  }
+}
+
+function sleep(ms: number) {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+describe("Session pause and resume", () => {
+  let sent: string[];
+  let session: Session;
+  let agent: TestAgent;
+
+  function sentTypes(): string[] {
+    return sent.map((data) => JSON.parse(data).type);
+  }
+
+  before(() => {
+    VoiceAIAgentRegistry.register({
+      name: "session-test",
+      description: "Agent double for session tests",
+      configSchema: {},
+      create: (session: Session) => (agent = new TestAgent(session)),
+    });
+    process.env.BOT_PROVIDER = "session-test";
+    process.env.TOOL_PAUSE_THRESHOLD = "20";
+  });
+
+  after(() => {
+    delete process.env.BOT_PROVIDER;
+    delete process.env.TOOL_PAUSE_THRESHOLD;
+  });
+
+  beforeEach(() => {
+    sent = [];
+    const ws = {
+      send: (data: unknown) => {
+        if (typeof data === "string") sent.push(data);
+      },
+      close: () => {},
+    } as unknown as WebSocket;
+    session = new Session(ws, "session-test", "/");
+    session.initializeVoiceAgent();
+  });
+
+  it("sends pause and resume", () => {
+    session.pause();
+    session.pause(); // Already requested
+    session.processPaused();
+    session.resume();
+    session.processResumed("PT1S", "PT2S");
+    session.close();
+
+    assert.deepEqual(sentTypes(), ["pause", "resume"]);
+  });
+
+  it("resumes the stream position after the discarded audio", () => {
+    session.processPaused();
+    session.processResumed("PT1.5S", "PT2S");
+    session.close();
+
+    assert.equal(session.getStreamPosition(), 3.5);
+  });
+
+  it("suspends inbound audio and the no-input timer while paused", async () => {
+    session.processBinaryMessage(new Uint8Array(160));
+    assert.equal(agent.audio.length, 1);
+
+    session.pause();
+    session.processPaused();
+    session.processBinaryMessage(new Uint8Array(160));
+    session.playbackCompleted(); // Would normally start the no-input timer
+    await sleep(NO_INPUT_TIMEOUT_MS * 3);
+
+    assert.equal(agent.audio.length, 1);
+    assert.equal(agent.noInputTimeouts, 0);
+
+    session.resume();
+    session.processResumed("PT1S", "PT0S");
+    session.processBinaryMessage(new Uint8Array(160));
+    await sleep(NO_INPUT_TIMEOUT_MS * 3);
+    session.close();
+
+    assert.equal(agent.audio.length, 2);
+    assert.equal(agent.noInputTimeouts, 1);
+  });
+
+  it("pauses while a webhook tool is slow and resumes when it answers", async () => {
+    const server = http.createServer((_request, response) => {
+      setTimeout(() => response.end("done"), 100);
+    });
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    const { port } = server.address() as AddressInfo;
+
+    try {
+      const dispatcher = new ClientToolDispatcher(session, [
+        {
+          name: "slowLookup",
+          description: "Takes longer than the pause threshold",
+          endpoint: { url: `http://127.0.0.1:${port}/` },
+        },
+      ]);
+      const result = await dispatcher.dispatch("slowLookup", "call-1", {});
+
+      assert.deepEqual(result, { result: "done", isError: false });
+      assert.deepEqual(sentTypes(), ["pause", "resume"]);
+    } finally {
+      session.close();
+      server.close();
+    }
+  });
+});
@@ -1,8 +1,17 @@
+import EventEmitter from "events";
 import { v4 as uuid } from "uuid";
 import { WebSocket } from "ws";
-import { JsonStringMap, MediaParameter } from "../protocol/core";
+import {
+  Duration,
+  JsonObject,
+  JsonStringMap,
+  LanguageCode,
+  MediaChannel,
+  MediaParameter,
+} from "../protocol/core";
 import {
   ClientMessage,
+  ContinuedSessions,
   DisconnectParameters,
   DisconnectReason,
   EventParameters,
@@ -16,31 +25,55 @@ import {
   EventEntityBargeIn,
   EventEntityBotTurnResponse,
 } from "../protocol/voice-bots";
-import {
-  EventEntityDataTranscript,
-  EventEntityTranscript,
-} from "../protocol/entities-transcript";
+import { EventEntityTranscript } from "../protocol/entities-transcript";
 import { MessageHandlerRegistry } from "./message-handlers/message-handler-registry";
 import { DTMFService } from "../services/dtmf-service";
+import { DTMFToneDetector } from "../services/dtmf-tone-detector";
+import { StreamClock } from "../services/stream-clock";
 import { VoiceAIAgentBaseClass } from "../services/voice-aiagent-base";
 import { VoiceAIAgentFactory } from "../services/voice-aiagent-factory";
+import { SessionStore } from "../services/session-store";
+import { AudioPlayoutScheduler } from "../services/audio-playout-scheduler";
+import { AudioCodec, getCodec } from "../services/audio-codecs";
+import { AgentConfig, resolveAgentConfig } from "../services/agent-config";
+import { CollectedSlot } from "../services/built-in-tools";
+import {
+  TranscriptResult,
+  buildTranscriptData,
+  getBestTranscript,
+} from "../services/transcript-result";
 import {
   getMAXBinaryMessageSize,
-  getMinBinaryMessageSize,
+  getPlayoutFrameMs,
+  getPlayoutLeadMs,
+  getCompletionTimeout,
+  getDTMFOptions,
+  getDTMFMaskDigits,
+  getInbandDTMFDetection,
+  getInbandDTMFSuppression,
   getISTTime,
 } from "../common/environment-variables";
+import { parseDuration } from "../common/duration";
+
+const AGENT_TURN_POLL_MS = 200;
+// How long a DTMF capture waits for the agent to finish asking for the digits
+const DTMF_PROMPT_TIMEOUT_MS = 10000;
 
-const BOT_PROVIDER = process.env.BOT_PROVIDER || "UltraVox";
+export type SessionMetrics = {
+  discardedCount: number; // "discarded" messages received from Genesys
+  discardedSeconds: number; // Total audio Genesys discarded
+};
 
 export class Session {
   private MAXIMUM_BINARY_MESSAGE_SIZE = getMAXBinaryMessageSize();
-  private MIN_BINARY_MESSAGE_SIZE = getMinBinaryMessageSize();
   private disconnecting = false;
   private closed = false;
   private ws;
 
   private messageHandlerRegistry = new MessageHandlerRegistry();
   private dtmfService: DTMFService | null = null;
+  private dtmfToneDetector: DTMFToneDetector | null = null;
+  private audioTaps = new EventEmitter();
   private voiceAIAgentClient: VoiceAIAgentBaseClass | null = null;
 
   private url;
@@ -49,14 +82,30 @@ export class Session {
   private lastServerSequenceNumber = 0;
   private lastClientSequenceNumber = 0;
   private inputVariables: JsonStringMap = {};
+  private customConfig: JsonObject = {};
+  private agentConfig: AgentConfig | undefined;
   private selectedMedia: MediaParameter | undefined;
+  private language: LanguageCode | undefined;
+  private continuedAgentState: JsonObject | undefined;
+  private reconnectSaved = false;
 
   private isCapturingDTMF = false;
+  private dtmfCaptureTimer: NodeJS.Timeout | null = null;
   private isAudioPlaying = false;
-  private buffer: Array<Uint8Array> = new Array<Uint8Array>();
-
-  private lastAudioSendTime = 0;
-  private readonly MIN_SEND_INTERVAL = 50; // ms
+  private isPaused = false;
+  private pauseRequested = false;
+  private playoutScheduler: AudioPlayoutScheduler | null = null;
+  private outputVariables: JsonStringMap = {};
+  private collectedSlots = new Map<string, CollectedSlot>();
+  private completionTimer: NodeJS.Timeout | null = null;
+  private agentTurnCount = 0;
+  private agentUtteranceSentBytes = 0;
+  private bargeInSent = false;
+  private streamClock = new StreamClock();
+  private metrics: SessionMetrics = {
+    discardedCount: 0,
+    discardedSeconds: 0,
+  };
 
   constructor(
     ws: WebSocket,
@@ -92,13 +141,32 @@ export class Session {
       return;
     }
 
+    const { config, errors } = resolveAgentConfig(
+      this.inputVariables,
+      this.customConfig
+    );
+    if (errors.length > 0) {
+      const info = `Invalid agent configuration: ${errors.join("; ")}`;
+      console.error(`${getISTTime()}:[Session] ${info}`);
+      this.sendDisconnect("error", info, {});
+      return;
+    }
+    this.agentConfig = config;
+
     try {
       console.log(
-        `${getISTTime()}:[Session] Starting UltraVox after Genesys handshake completed`
+        `${getISTTime()}:[Session] Starting ${
+          config.provider
+        } after Genesys handshake completed`
+      );
+      this.voiceAIAgentClient = VoiceAIAgentFactory.create(
+        config.provider,
+        this
       );
-      this.voiceAIAgentClient = VoiceAIAgentFactory.create(BOT_PROVIDER, this);
       console.log(
-        `${getISTTime()}:[Session] Voice AI Agent initialized: ${BOT_PROVIDER}`
+        `${getISTTime()}:[Session] Voice AI Agent initialized: ${
+          config.provider
+        }`
       );
     } catch (error) {
       console.error(
@@ -125,9 +193,44 @@ export class Session {
   getInputVariables(): JsonStringMap {
     return this.inputVariables;
   }
+  getAgentConfig(): AgentConfig {
+    return this.agentConfig || resolveAgentConfig({}, {}).config;
+  }
   getConversationId(): string | undefined {
     return this.conversationId;
   }
+  getIsPaused(): boolean {
+    return this.isPaused;
+  }
+  getLanguage(): LanguageCode | undefined {
+    return this.language;
+  }
+  getSelectedMedia(): MediaParameter | undefined {
+    return this.selectedMedia;
+  }
+  // Codec for the negotiated format (PCMU until "open" says otherwise)
+  getMediaCodec(): AudioCodec {
+    return getCodec(this.selectedMedia?.format || "PCMU");
+  }
+  getOutputVariables(): JsonStringMap {
+    return this.outputVariables;
+  }
+  getCollectedSlots(): Map<string, CollectedSlot> {
+    return this.collectedSlots;
+  }
+  getMetrics(): SessionMetrics {
+    return this.metrics;
+  }
+  getStreamClock(): StreamClock {
+    return this.streamClock;
+  }
+  // Position in the audio stream, in seconds, for anchoring events
+  getStreamPosition(): number {
+    return this.streamClock.getPosition();
+  }
+  getContinuedAgentState(): JsonObject | undefined {
+    return this.continuedAgentState;
+  }
 
   close() {
     if (this.closed) {
@@ -140,8 +243,16 @@ export class Session {
         `${getISTTime()}:[Session] Closing session: ${this.clientSessionId}`
       );
 
-      // Close Voice AI Agent first (if initialized)
-      this.voiceAIAgentClient?.close();
+      // Close Voice AI Agent first (if initialized). After a reconnect the
+      // continued session rejoins the agent's conversation, so keep it alive
+      if (this.reconnectSaved) {
+        this.voiceAIAgentClient?.detach();
+      } else {
+        this.voiceAIAgentClient?.close();
+      }
+      this.playoutScheduler?.clear();
+      this.stopCompletionTimer();
+      this.stopDTMFCapture();
 
       // Close WebSocket
       this.ws.close();
@@ -151,7 +262,9 @@ export class Session {
 
     this.closed = true;
     console.log(
-      `${getISTTime()}:[Session] Session closed: ${this.clientSessionId}`
+      `${getISTTime()}:[Session] Session closed: ${
+        this.clientSessionId
+      } (metrics: ${JSON.stringify(this.metrics)})`
     );
   }
 
@@ -168,15 +281,109 @@ export class Session {
     );
   }
 
+  // Restore state saved by a previous session that was asked to reconnect
+  continueSessions(continuedSessions: ContinuedSessions) {
+    for (const continuedSession of continuedSessions) {
+      const snapshot = SessionStore.take(continuedSession.id);
+      if (!snapshot) {
+        console.log(
+          `${getISTTime()}:[Session] No state for continued session: ${
+            continuedSession.id
+          }`
+        );
+        continue;
+      }
+
+      if (
+        continuedSession.serverseq !== snapshot.serverseq ||
+        continuedSession.clientseq !== snapshot.clientseq
+      ) {
+        console.warn(
+          `${getISTTime()}:[Session] Continued session ${
+            continuedSession.id
+          } sequence mismatch: expected ${snapshot.serverseq}/${
+            snapshot.clientseq
+          }, got ${continuedSession.serverseq}/${continuedSession.clientseq}`
+        );
+      }
+
+      // Values from the new "open" take precedence over the saved ones
+      this.inputVariables = {
+        ...snapshot.inputVariables,
+        ...this.inputVariables,
+      };
+      if (!this.language && snapshot.language) {
+        this.language = snapshot.language;
+      }
+      this.continuedAgentState = snapshot.agentState;
+
+      console.log(
+        `${getISTTime()}:[Session] Continuing session ${
+          continuedSession.id
+        } (serverseq: ${snapshot.serverseq}, clientseq: ${snapshot.clientseq})`
+      );
+    }
+  }
+
+  // Output variables are returned to the Architect flow on disconnect
+  setOutputVariables(outputVariables: JsonStringMap) {
+    this.outputVariables = { ...this.outputVariables, ...outputVariables };
+  }
+
+  setSlot(name: string, slot: CollectedSlot) {
+    this.collectedSlots.set(name, slot);
+    console.log(
+      `${getISTTime()}:[Session] Slot collected: ${name} (confidence: ${
+        slot.confidence
+      })`
+    );
+  }
+
+  setCustomConfig(customConfig: JsonObject) {
+    this.customConfig = customConfig;
+    console.log(
+      `${getISTTime()}:[Session] Custom config keys:`,
+      Object.keys(customConfig).join(", ")
+    );
+  }
+
   setSelectedMedia(selectedMedia: MediaParameter) {
     this.selectedMedia = selectedMedia;
+    this.streamClock.setSampleRate(selectedMedia.rate);
+    this.playoutScheduler?.clear();
+    this.playoutScheduler = null;
+    this.dtmfToneDetector = null;
     console.log(
       `${getISTTime()}:[Session] Media:`,
       JSON.stringify(selectedMedia)
     );
   }
 
+  setLanguage(language: LanguageCode) {
+    this.language = language;
+    console.log(`${getISTTime()}:[Session] Language: ${language}`);
+  }
+
+  // Mid-call language change from Genesys - hand it to the active agent
+  updateLanguage(language: LanguageCode) {
+    if (language === this.language) {
+      console.log(
+        `${getISTTime()}:[Session] Language unchanged (${language}) - ignoring update`
+      );
+      return;
+    }
+
+    this.setLanguage(language);
+    this.voiceAIAgentClient?.processLanguageUpdate(language);
+  }
+
   setIsAudioPlaying(isAudioPlaying: boolean) {
+    if (isAudioPlaying && !this.isAudioPlaying) {
+      // A new agent utterance starts
+      this.agentTurnCount++;
+      this.agentUtteranceSentBytes = 0;
+      this.bargeInSent = false;
+    }
     this.isAudioPlaying = isAudioPlaying;
     console.log(`${getISTTime()}:[Session] Audio playing: ${isAudioPlaying}`);
   }
@@ -187,6 +394,82 @@ export class Session {
     this.voiceAIAgentClient?.processPlaybackCompleted();
   }
 
+  /*
+   * Ask Genesys to pause the audio stream, e.g. while a webhook tool is slow
+   * (see ClientToolDispatcher) or while sensitive data is spoken. Genesys can
+   * also pause on its own, which arrives through processPaused().
+   */
+  pause() {
+    if (this.disconnecting || this.closed) {
+      console.log(`${getISTTime()}:[Session] Cannot pause - session closing`);
+      return;
+    }
+
+    if (this.isPaused || this.pauseRequested) {
+      console.log(`${getISTTime()}:[Session] Audio already paused`);
+      return;
+    }
+
+    this.pauseRequested = true;
+    console.log(`${getISTTime()}:[Session] Requesting pause`);
+    this.send(this.createMessage("pause", {}));
+  }
+
+  resume() {
+    if (this.disconnecting || this.closed) {
+      console.log(`${getISTTime()}:[Session] Cannot resume - session closing`);
+      return;
+    }
+
+    if (!this.isPaused && !this.pauseRequested) {
+      console.log(`${getISTTime()}:[Session] Audio not paused`);
+      return;
+    }
+
+    console.log(`${getISTTime()}:[Session] Requesting resume`);
+    this.send(this.createMessage("resume", {}));
+  }
+
+  // Genesys confirmed (or initiated) the pause
+  processPaused() {
+    this.isPaused = true;
+    this.pauseRequested = false;
+    console.log(`${getISTTime()}:[Session] Audio stream paused`);
+    this.voiceAIAgentClient?.processPaused();
+  }
+
+  processResumed(start: Duration, discarded: Duration) {
+    this.isPaused = false;
+    this.pauseRequested = false;
+    this.dtmfToneDetector?.reset();
+
+    // "start" is where the pause began; audio resumes after what was discarded
+    const discardedSeconds = parseDuration(discarded);
+    const resumedSeconds = parseDuration(start) + discardedSeconds;
+    console.log(
+      `${getISTTime()}:[Session] Audio stream resumed at ${resumedSeconds}s (discarded: ${discardedSeconds}s)`
+    );
+    this.streamClock.sync(resumedSeconds);
+    this.voiceAIAgentClient?.processResumed(resumedSeconds, discardedSeconds);
+  }
+
+  // Genesys dropped inbound audio (e.g. backpressure) - the stream has a gap
+  processDiscarded(start: Duration, discarded: Duration) {
+    const startSeconds = parseDuration(start);
+    const discardedSeconds = parseDuration(discarded);
+
+    this.metrics.discardedCount++;
+    this.metrics.discardedSeconds += discardedSeconds;
+    this.streamClock.sync(startSeconds + discardedSeconds);
+
+    console.warn(
+      `${getISTTime()}:[Session] Genesys discarded ${discardedSeconds}s of audio at ${startSeconds}s (total: ${this.metrics.discardedSeconds.toFixed(
+        3
+      )}s in ${this.metrics.discardedCount} gaps)`
+    );
+    this.voiceAIAgentClient?.processDiscarded(startSeconds, discardedSeconds);
+  }
+
   processTextMessage(data: string) {
     if (this.closed) {
       console.log(
@@ -256,6 +539,11 @@ export class Session {
         }
       }
 
+      // Genesys positions are authoritative for the stream clock
+      if (message.position) {
+        this.streamClock.sync(parseDuration(message.position));
+      }
+
       const handler = this.messageHandlerRegistry.getHandler(message.type);
       if (!handler) {
         console.log(
@@ -349,23 +637,14 @@ export class Session {
     this.ws.send(JSON.stringify(message));
   }
 
+  // Mark the end of an agent utterance so the trailing audio is played out
   flushBuffer() {
-    const totalLength =
-      this.buffer?.reduce((acc, curr) => acc + curr.length, 0) || 0;
-    if (totalLength <= 0) {
+    if (!this.playoutScheduler || this.playoutScheduler.isIdle()) {
       console.log(`${getISTTime()}:[Session] Buffer empty - nothing to flush`);
       return;
     }
 
-    const bytes = new Uint8Array(totalLength);
-    let offset = 0;
-    for (const byteArray of this.buffer) {
-      bytes.set(byteArray, offset);
-      offset += byteArray.length;
-    }
-    this.buffer.length = 0;
-
-    this.sendAudioChunks(bytes);
+    this.playoutScheduler.flush();
   }
 
   sendAudio(currBytes: Uint8Array) {
@@ -376,38 +655,33 @@ export class Session {
       return;
     }
 
-    const now = Date.now();
-    if (now - this.lastAudioSendTime < this.MIN_SEND_INTERVAL) {
-      return;
-    }
-    this.lastAudioSendTime = now;
+    this.getPlayoutScheduler().enqueue(currBytes);
+  }
 
-    this.buffer.push(currBytes);
-    const totalLength =
-      this.buffer?.reduce((acc, curr) => acc + curr.length, 0) || 0;
+  private getPlayoutScheduler(): AudioPlayoutScheduler {
+    if (!this.playoutScheduler) {
+      // Outbound audio is mono in the negotiated format
+      const codec = this.getMediaCodec();
+      const sampleRate = this.selectedMedia?.rate || 8000;
 
-    if (totalLength < this.MIN_BINARY_MESSAGE_SIZE) {
-      console.log(
-        `${getISTTime()}:[Session] Buffering audio (${totalLength}/${
-          this.MIN_BINARY_MESSAGE_SIZE
-        })`
+      this.playoutScheduler = new AudioPlayoutScheduler(
+        (frame: Uint8Array) => this.sendAudioChunks(frame),
+        {
+          bytesPerSecond: sampleRate * codec.bytesPerSample,
+          frameMs: getPlayoutFrameMs(),
+          leadMs: getPlayoutLeadMs(),
+          silenceByte: codec.silenceByte,
+        }
       );
-      setTimeout(this.flushBuffer.bind(this), 500);
-      return;
-    }
-
-    const bytes = new Uint8Array(totalLength);
-    let offset = 0;
-    for (const byteArray of this.buffer) {
-      bytes.set(byteArray, offset);
-      offset += byteArray.length;
     }
-    this.buffer.length = 0;
-
-    this.sendAudioChunks(bytes);
+    return this.playoutScheduler;
   }
 
   private sendAudioChunks(bytes: Uint8Array) {
+    this.agentUtteranceSentBytes += bytes.length;
+    this.streamClock.addOutbound(
+      bytes.length / this.getMediaCodec().bytesPerSample
+    );
     if (bytes.length <= this.MAXIMUM_BINARY_MESSAGE_SIZE) {
       console.log(
         `${getISTTime()}:[Session] Sending audio: ${bytes.length} bytes`
@@ -433,7 +707,40 @@ export class Session {
     }
   }
 
+  /*
+   * The caller interrupted the agent: drop the agent audio Genesys has not
+   * received yet and send barge_in, which also makes Genesys drop what it has
+   * not played. Returns the share of the agent's current utterance the caller
+   * actually heard, from 0 to 1.
+   */
+  interruptAgentAudio(): number {
+    const unplayedBytes = this.playoutScheduler?.getUnplayedBytes() || 0;
+    const discardedBytes = this.playoutScheduler?.clear() || 0;
+    const generatedBytes = this.agentUtteranceSentBytes + discardedBytes;
+    const heardBytes = Math.max(
+      0,
+      this.agentUtteranceSentBytes - unplayedBytes
+    );
+
+    this.sendBargeIn();
+    this.setIsAudioPlaying(false);
+
+    const heard = generatedBytes > 0 ? heardBytes / generatedBytes : 1;
+    console.log(
+      `${getISTTime()}:[Session] Agent interrupted - caller heard ${Math.round(
+        heard * 100
+      )}% of the utterance`
+    );
+    return heard;
+  }
+
   sendBargeIn() {
+    if (this.bargeInSent) {
+      console.log(`${getISTTime()}:[Session] Barge-in already sent`);
+      return;
+    }
+    this.bargeInSent = true;
+
     const bargeInEvent: EventEntityBargeIn = {
       type: "barge_in",
       data: {},
@@ -442,8 +749,10 @@ export class Session {
       entities: [bargeInEvent],
     } as SelectParametersForType<"event", EventParameters>);
 
-    this.buffer.length = 0; // Clear buffer on barge-in
-    console.log(`${getISTTime()}:[Session] Sending barge-in`);
+    this.playoutScheduler?.clear(); // Drop queued agent audio on barge-in
+    console.log(
+      `${getISTTime()}:[Session] Sending barge-in at ${this.getStreamPosition()}s`
+    );
     this.send(message);
   }
 
@@ -465,38 +774,53 @@ export class Session {
     } as SelectParametersForType<"event", EventParameters>);
 
     console.log(
-      `${getISTTime()}:[Session] Sending bot response: ${disposition} - ${text}`
+      `${getISTTime()}:[Session] Sending bot response at ${this.getStreamPosition()}s: ${disposition} - ${text}`
     );
     this.send(message);
   }
 
-  sendTranscript(transcript: string, confidence: number, isFinal: boolean) {
-    const channel = this.selectedMedia?.channels[0];
-    if (!channel) {
-      console.log(`${getISTTime()}:[Session] No channel for transcript`);
+  /*
+   * Caller speech goes on the "external" channel, agent speech on "internal".
+   * position and duration are in seconds of stream time (getStreamPosition).
+   */
+  sendTranscript(
+    transcript: string,
+    confidence: number,
+    isFinal: boolean,
+    channel: MediaChannel = "external",
+    position?: number,
+    duration?: number
+  ) {
+    this.sendTranscriptResult({
+      channel,
+      isFinal,
+      position,
+      duration,
+      alternatives: [{ confidence, normalized: transcript }],
+    });
+  }
+
+  /*
+   * Rich recognition results (lexical and normalized forms, word timings,
+   * language) for providers that report them, e.g. for Speech & Text Analytics.
+   */
+  sendTranscriptResult(result: TranscriptResult) {
+    const channel = result.channel || "external";
+    if (!this.selectedMedia?.channels.includes(channel)) {
+      console.log(
+        `${getISTTime()}:[Session] Channel ${channel} not negotiated - cannot send transcript`
+      );
       return;
     }
 
-    const parameters: EventEntityDataTranscript = {
-      id: uuid(),
-      channel,
-      isFinal,
-      alternatives: [
-        {
-          confidence,
-          interpretations: [
-            {
-              type: "normalized",
-              transcript,
-            },
-          ],
-        },
-      ],
-    };
+    if (result.alternatives.length === 0) {
+      console.log(`${getISTTime()}:[Session] Ignoring empty transcript`);
+      return;
+    }
 
     const transcriptEvent: EventEntityTranscript = {
       type: "transcript",
-      data: parameters,
+      data: buildTranscriptData(uuid(), result),
     };
 
     const message = this.createMessage("event", {
@@ -504,7 +828,9 @@ export class Session {
     } as SelectParametersForType<"event", EventParameters>);
 
     console.log(
-      `${getISTTime()}:[Session] Transcript: "${transcript}" (final: ${isFinal})`
+      `${getISTTime()}:[Session] Transcript (${channel}): "${getBestTranscript(
+        result
+      )}" (final: ${result.isFinal})`
     );
     this.send(message);
   }
@@ -517,15 +843,144 @@ export class Session {
     this.disconnecting = true;
     console.log(`${getISTTime()}:[Session] Disconnecting: ${reason} - ${info}`);
 
+    // Collected slots are returned whatever the reason for disconnecting
+    const slotVariables: JsonStringMap = {};
+    this.collectedSlots.forEach(({ value, confidence }, name) => {
+      slotVariables[name] = value;
+      slotVariables[`${name}Confidence`] = String(confidence);
+    });
+
     const disconnectParameters: DisconnectParameters = {
       reason,
       info,
-      outputVariables,
+      outputVariables: { ...slotVariables, ...outputVariables },
     };
     const message = this.createMessage("disconnect", disconnectParameters);
     this.send(message);
   }
 
+  /*
+   * Agent-initiated end of the conversation. The disconnect is held back until
+   * the agent's final turn has been played to the caller (or until
+   * COMPLETION_TIMEOUT), then sent with reason "completed" and the collected
+   * output variables.
+   *
+   * The final turn is the one playing when this is called or, if the agent is
+   * silent, the next one it starts (e.g. the goodbye it says after an endCall
+   * tool result). Pass awaitAgentTurn = false when no further turn will come,
+   * e.g. the agent has already hung up.
+   */
+  completeConversation(
+    outputVariables: JsonStringMap = {},
+    info: string = "Conversation completed",
+    awaitAgentTurn: boolean = true
+  ) {
+    if (this.disconnecting || this.closed || this.reconnectSaved) {
+      console.log(
+        `${getISTTime()}:[Session] Cannot complete - session closing`
+      );
+      return;
+    }
+
+    this.setOutputVariables(outputVariables);
+    if (this.completionTimer) {
+      return;
+    }
+
+    console.log(
+      `${getISTTime()}:[Session] Completing conversation - waiting for final audio`
+    );
+    this.completionTimer = this.waitForAgentTurn(
+      awaitAgentTurn,
+      getCompletionTimeout(),
+      (played, turnStarted) => {
+        this.completionTimer = null;
+        if (!played) {
+          console.warn(
+            `${getISTTime()}:[Session] Final ${
+              turnStarted ? "audio still playing" : "agent turn not started"
+            } after ${getCompletionTimeout()}ms - disconnecting`
+          );
+        }
+        if (!this.disconnecting && !this.closed) {
+          this.sendDisconnect("completed", info, this.outputVariables);
+        }
+      }
+    );
+  }
+
+  /*
+   * Calls back once the agent's current turn or, if the agent is silent, its
+   * next turn has been played to the caller: the agent has stopped speaking
+   * and the client has no unplayed audio left. With awaitAgentTurn = false
+   * only the audio already playing is waited for. Gives up after timeoutMs
+   * with played = false.
+   */
+  private waitForAgentTurn(
+    awaitAgentTurn: boolean,
+    timeoutMs: number,
+    callback: (played: boolean, turnStarted: boolean) => void
+  ): NodeJS.Timeout {
+    const turnCountAtRequest = this.agentTurnCount;
+    const turnPending = awaitAgentTurn && !this.isAudioPlaying;
+    const deadline = Date.now() + timeoutMs;
+
+    const timer = setInterval(() => {
+      const turnStarted =
+        !turnPending || this.agentTurnCount > turnCountAtRequest;
+      const played =
+        turnStarted &&
+        !this.isAudioPlaying &&
+        (!this.playoutScheduler ||
+          (this.playoutScheduler.isIdle() &&
+            this.playoutScheduler.getUnplayedBytes() === 0));
+
+      if (!played && Date.now() < deadline) {
+        return;
+      }
+
+      clearInterval(timer);
+      callback(played, turnStarted);
+    }, AGENT_TURN_POLL_MS);
+    return timer;
+  }
+
+  private stopCompletionTimer() {
+    if (this.completionTimer) {
+      clearInterval(this.completionTimer);
+      this.completionTimer = null;
+    }
+  }
+
+  // Ask Genesys to move this session to a new connection (planned restart)
+  sendReconnect(info: string) {
+    if (this.disconnecting || this.closed) {
+      console.log(
+        `${getISTTime()}:[Session] Cannot reconnect - session closing`
+      );
+      return;
+    }
+
+    const message = this.createMessage("reconnect", { info });
+
+    // Snapshot after creating the message so serverseq includes "reconnect"
+    SessionStore.save({
+      sessionId: this.clientSessionId,
+      conversationId: this.conversationId,
+      serverseq: this.lastServerSequenceNumber,
+      clientseq: this.lastClientSequenceNumber,
+      inputVariables: this.inputVariables,
+      language: this.language,
+      agentState: this.voiceAIAgentClient?.getContinuationState() || {},
+      savedAt: Date.now(),
+    });
+    this.reconnectSaved = true;
+    this.stopCompletionTimer();
+
+    console.log(`${getISTTime()}:[Session] Sending reconnect: ${info}`);
+    this.send(message);
+  }
+
   sendClosed() {
     const message = this.createMessage("closed", {});
     console.log(`${getISTTime()}:[Session] Sending closed`);
@@ -553,7 +1008,7 @@ export class Session {
       } bytes -> sending to Genesys customer`
     );
 
-    // Use existing sendAudio method for buffering/chunking
+    // Queue for real-time paced playout
     this.sendAudio(audioData);
   }
 
@@ -564,6 +1019,34 @@ export class Session {
       return;
     }
 
+    if (this.isPaused) {
+      console.log(`${getISTTime()}:[Session] Ignoring audio - stream paused`);
+      return;
+    }
+
+    // Taps see every channel, regardless of what the agent is doing
+    const channelAudio = this.splitChannels(data);
+    this.streamClock.addInbound(
+      (channelAudio.get("external")?.length || 0) /
+        this.getMediaCodec().bytesPerSample
+    );
+    channelAudio.forEach((audio, channel) => {
+      this.audioTaps.emit("audio", channel, audio);
+    });
+
+    // Only the customer (external) channel is fed to the bot
+    let customerAudio = channelAudio.get("external");
+    if (!customerAudio) {
+      console.log(
+        `${getISTTime()}:[Session] Ignoring audio - no external channel`
+      );
+      return;
+    }
+
+    if (getInbandDTMFDetection()) {
+      customerAudio = this.detectInbandDTMF(customerAudio);
+    }
+
     if (this.isCapturingDTMF) {
       console.log(`${getISTTime()}:[Session] Ignoring audio - capturing DTMF`);
       return;
@@ -578,49 +1061,185 @@ export class Session {
 
     console.log(
       `${getISTTime()}:[Session] Processing CUSTOMER audio from Genesys: ${
-        data.length
+        customerAudio.length
       } bytes -> sending to UltraVox`
     );
 
     // Send customer audio TO UltraVox agent
-    this.voiceAIAgentClient.processAudio(data);
+    this.voiceAIAgentClient.processAudio(customerAudio);
+  }
+
+  /*
+   * Feeds keypad tones found in the caller's audio into the same pipeline as
+   * AudioHook "dtmf" messages. Unless DTMF_INBAND_SUPPRESS is "false", audio
+   * carrying a tone is replaced with silence so the bot does not hear it.
+   */
+  private detectInbandDTMF(audio: Uint8Array): Uint8Array {
+    if (!this.dtmfToneDetector) {
+      this.dtmfToneDetector = new DTMFToneDetector(
+        this.selectedMedia?.rate || 8000
+      );
+    }
+
+    const codec = this.getMediaCodec();
+    const { digits, toneActive } = this.dtmfToneDetector.process(
+      codec.decode(audio)
+    );
+    digits.forEach((digit) => {
+      console.log(
+        `${getISTTime()}:[Session] In-band DTMF detected: ${this.maskDTMF(
+          digit
+        )}`
+      );
+      this.processDTMF(digit);
+    });
+
+    if (toneActive && getInbandDTMFSuppression()) {
+      return new Uint8Array(audio.length).fill(codec.silenceByte);
+    }
+    return audio;
+  }
+
+  // Raw inbound audio per channel, e.g. for monitoring or recording
+  onChannelAudio(
+    listener: (channel: MediaChannel, audio: Uint8Array) => void
+  ): Session {
+    this.audioTaps.addListener("audio", listener);
+    return this;
+  }
+
+  // Genesys interleaves samples in the order of the negotiated channels
+  private splitChannels(data: Uint8Array): Map<MediaChannel, Uint8Array> {
+    const channels: MediaChannel[] = this.selectedMedia?.channels || [
+      "external",
+    ];
+    const channelAudio = new Map<MediaChannel, Uint8Array>();
+
+    if (channels.length === 1) {
+      channelAudio.set(channels[0], data);
+      return channelAudio;
+    }
+
+    const bytesPerSample = this.getMediaCodec().bytesPerSample;
+    const frameSize = bytesPerSample * channels.length;
+    const frameCount = Math.floor(data.length / frameSize);
+
+    channels.forEach((channel, index) => {
+      const audio = new Uint8Array(frameCount * bytesPerSample);
+      for (let frame = 0; frame < frameCount; frame++) {
+        const source = frame * frameSize + index * bytesPerSample;
+        for (let byte = 0; byte < bytesPerSample; byte++) {
+          audio[frame * bytesPerSample + byte] = data[source + byte];
+        }
+      }
+      channelAudio.set(channel, audio);
+    });
+
+    return channelAudio;
   }
 
-  // DTMF processing
+  /*
+   * DTMF processing. Digits entered while the agent is speaking (typing ahead
+   * of its prompt) are kept: the capture starts with the first digit, which
+   * also replaces a capture still waiting for the prompt to end.
+   */
   processDTMF(digit: string) {
     if (this.disconnecting || this.closed) {
       console.log(`${getISTTime()}:[Session] Ignoring DTMF - session closing`);
       return;
     }
 
-    if (this.isAudioPlaying) {
-      console.log(`${getISTTime()}:[Session] Ignoring DTMF - audio playing`);
-      this.dtmfService = null;
+    console.log(
+      `${getISTTime()}:[Session] Processing DTMF: ${this.maskDTMF(digit)}`
+    );
+    this.stopDTMFCaptureTimer();
+    this.getDTMFService().processDigit(digit);
+  }
+
+  /*
+   * Start a capture ahead of the first digit so the first-digit timeout
+   * applies (collectDigits tool). The agent asks for the digits after this is
+   * called, so the timeout only starts once that turn has been played.
+   */
+  startDTMFCapture() {
+    if (this.disconnecting || this.closed || this.dtmfCaptureTimer) {
       return;
     }
 
+    console.log(
+      `${getISTTime()}:[Session] DTMF capture requested - waiting for the agent's prompt`
+    );
+    this.dtmfCaptureTimer = this.waitForAgentTurn(
+      true,
+      DTMF_PROMPT_TIMEOUT_MS,
+      () => {
+        this.dtmfCaptureTimer = null;
+        if (!this.disconnecting && !this.closed) {
+          this.getDTMFService().start();
+        }
+      }
+    );
+  }
+
+  private stopDTMFCaptureTimer() {
+    if (this.dtmfCaptureTimer) {
+      clearInterval(this.dtmfCaptureTimer);
+      this.dtmfCaptureTimer = null;
+    }
+  }
+
+  private getDTMFService(): DTMFService {
     if (!this.isCapturingDTMF) {
       this.isCapturingDTMF = true;
       console.log(`${getISTTime()}:[Session] Started DTMF capture`);
     }
 
     if (!this.dtmfService || this.dtmfService.getState() === "Complete") {
-      this.dtmfService = new DTMFService()
+      this.dtmfService = new DTMFService(getDTMFOptions())
         .on("error", (error: any) => {
           const message = "Error during DTMF Capture.";
           console.log(`${getISTTime()}:[Session] DTMF error: ${error}`);
           this.sendDisconnect("error", message, {});
         })
-        .on("final-digits", (digits: any) => {
-          this.sendTranscript(digits, 1.0, true);
-          console.log(`${getISTTime()}:[Session] DTMF captured: ${digits}`);
+        .on("complete", (digits: string) => {
+          const displayed = this.maskDTMF(digits);
+          this.sendTranscript(displayed, 1.0, true);
+          console.log(`${getISTTime()}:[Session] DTMF captured: ${displayed}`);
           this.isCapturingDTMF = false;
+          this.voiceAIAgentClient?.processDTMF(digits, "complete");
+        })
+        .on("timeout", (digits: string) => {
+          console.log(
+            `${getISTTime()}:[Session] DTMF capture timed out after ${
+              digits.length
+            } digits`
+          );
+          this.isCapturingDTMF = false;
+          this.voiceAIAgentClient?.processDTMF(digits, "timeout");
+        })
+        .on("aborted", (digits: string) => {
+          console.log(
+            `${getISTTime()}:[Session] DTMF capture aborted after ${
+              digits.length
+            } digits`
+          );
+          this.isCapturingDTMF = false;
+          this.voiceAIAgentClient?.processDTMF(digits, "aborted");
         });
 
       console.log(`${getISTTime()}:[Session] DTMF service initialized`);
     }
+    return this.dtmfService;
+  }
+
+  maskDTMF(digits: string): string {
+    return getDTMFMaskDigits() ? "*".repeat(digits.length) : digits;
+  }
 
-    console.log(`${getISTTime()}:[Session] Processing DTMF: ${digit}`);
-    this.dtmfService.processDigit(digit);
+  private stopDTMFCapture() {
+    this.stopDTMFCaptureTimer();
+    this.dtmfService?.cancel();
+    this.dtmfService = null;
+    this.isCapturingDTMF = false;
   }
 }